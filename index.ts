@@ -1,6 +1,16 @@
-import { startServer } from './src/server';
+import { shutdownBrowser } from './src/browser';
+import { closeDatabase } from './src/db';
+import { migrateConfigFile } from './src/config';
+import { runCli } from './src/cli';
 import { $ } from 'bun';
 
+// サブコマンドを指定した場合は、Webサーバーを起動せずにコマンドを実行して終了する
+// （例: bun run index.ts check --once。一覧は bun run index.ts help）
+// src/server は読み込むだけで通知の送信先・設定の変更の反映を登録するため、Webサーバーを起動する場合だけ読み込む
+if (process.argv.length > 2) {
+  process.exit(await runCli(process.argv.slice(2)));
+}
+
 console.log(`
 ╔══════════════════════════════════════╗
 ║   JKK Watcher - 都営住宅監視システム   ║
@@ -153,18 +163,26 @@ async function main() {
     console.log();
   }
 
+  // 古い形式の設定ファイルを現在の形式に変換して保存し直す
+  migrateConfigFile();
+
   // Webサーバーを起動
+  const { startServer } = await import('./src/server');
   startServer();
 }
 
-// プロセス終了時のクリーンアップ
-process.on('SIGINT', () => {
+// プロセス終了時のクリーンアップ（使い回しているブラウザとデータベースを閉じてから終了）
+process.on('SIGINT', async () => {
   console.log('\nサーバーを終了しています...');
+  await shutdownBrowser(true);
+  closeDatabase();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('\nサーバーを終了しています...');
+  await shutdownBrowser(true);
+  closeDatabase();
   process.exit(0);
 });
 
@@ -0,0 +1,137 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { AuthConfig } from './config';
+
+export const SESSION_COOKIE = 'jkkwatcher_session';
+
+const DEFAULT_SESSION_HOURS = 24 * 7;
+
+// セッションID → 有効期限（ミリ秒）。サーバーを再起動するとログインし直しになる
+const sessions = new Map<string, number>();
+
+/**
+ * ログインが必要か（パスワードかAPIトークンが設定されている場合）
+ */
+export function isAuthEnabled(auth: AuthConfig | undefined): boolean {
+  return !!auth?.password || !!auth?.tokens?.length;
+}
+
+/**
+ * 文字列を比較する（比較にかかる時間から内容を推測されないようにする）
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * ログインパスワードが正しいか
+ */
+export function verifyPassword(auth: AuthConfig | undefined, password: string): boolean {
+  return !!auth?.password && safeEqual(password, auth.password);
+}
+
+/**
+ * セッションを作成し、Set-Cookie ヘッダーの値を返す
+ */
+export function createSession(auth: AuthConfig | undefined): string {
+  const now = Date.now();
+  for (const [id, expiresAt] of sessions) {
+    if (expiresAt <= now) {
+      sessions.delete(id);
+    }
+  }
+
+  const maxAgeSeconds = Math.round((auth?.session_hours ?? DEFAULT_SESSION_HOURS) * 60 * 60);
+  const id = randomBytes(32).toString('hex');
+  sessions.set(id, now + maxAgeSeconds * 1000);
+  return `${SESSION_COOKIE}=${id}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}`;
+}
+
+/**
+ * リクエストのセッションを削除し、Cookie を消す Set-Cookie ヘッダーの値を返す
+ */
+export function deleteSession(req: Request): string {
+  const id = sessionId(req);
+  if (id) {
+    sessions.delete(id);
+  }
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`;
+}
+
+/**
+ * Cookie からセッションIDを取り出す
+ */
+function sessionId(req: Request): string | undefined {
+  const cookie = req.headers.get('Cookie') ?? '';
+  for (const pair of cookie.split(';')) {
+    const [name, ...value] = pair.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * ログイン済みのセッションか、正しいAPIトークンを持つリクエストか
+ * ログインが不要な設定の場合は常に true
+ */
+export function isAuthenticated(req: Request, auth: AuthConfig | undefined): boolean {
+  if (!isAuthEnabled(auth)) {
+    return true;
+  }
+
+  const authorization = req.headers.get('Authorization') ?? '';
+  if (authorization.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    return (auth?.tokens ?? []).some(candidate => safeEqual(token, candidate));
+  }
+
+  const id = sessionId(req);
+  const expiresAt = id ? sessions.get(id) : undefined;
+  if (!id || !expiresAt) {
+    return false;
+  }
+  if (expiresAt <= Date.now()) {
+    sessions.delete(id);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * リクエスト元のオリジンを許可するか
+ * Origin ヘッダーがない（ブラウザ以外）・同じオリジン・allowed_origins に含まれる場合に許可する
+ */
+export function isAllowedOrigin(req: Request, auth: AuthConfig | undefined): boolean {
+  const origin = req.headers.get('Origin');
+  if (!origin) {
+    return true;
+  }
+  try {
+    if (new URL(origin).host === req.headers.get('Host')) {
+      return true;
+    }
+  } catch {
+    return false;
+  }
+  return (auth?.allowed_origins ?? []).includes(origin);
+}
+
+/**
+ * CORS のヘッダー（allowed_origins に含まれるオリジンからのリクエストにだけ許可を返す）
+ */
+export function corsHeaders(req: Request, auth: AuthConfig | undefined): Record<string, string> {
+  const origin = req.headers.get('Origin');
+  if (!origin || !(auth?.allowed_origins ?? []).includes(origin)) {
+    return { 'Vary': 'Origin' };
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Vary': 'Origin',
+  };
+}
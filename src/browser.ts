@@ -0,0 +1,180 @@
+import { chromium, type Browser, type BrowserContext } from 'playwright';
+import { loadConfig, type BrowserConfig } from './config';
+import { recordBrowserLaunch } from './metrics';
+
+/**
+ * 使い回しているブラウザ1つ分の状態
+ */
+interface ManagedBrowser {
+  browser: Browser;
+  launchedAt: number;
+  checks: number; // このブラウザで開いたコンテキストの数
+  activeContexts: number; // 使用中のコンテキストの数
+  retiring: boolean; // 使用中のコンテキストが閉じたら終了する
+}
+
+const DEFAULT_BROWSER_CONFIG: Required<BrowserConfig> = {
+  max_checks: 50,
+  max_age_minutes: 60,
+};
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+// ヘッドレスモードごとに1つのブラウザを使い回す
+const browsers = new Map<boolean, ManagedBrowser>();
+// 起動中のブラウザ（同時に要求されても1回だけ起動する）
+const launching = new Map<boolean, Promise<ManagedBrowser>>();
+// コンテキスト → そのコンテキストを開いたブラウザ
+const contextOwners = new WeakMap<BrowserContext, ManagedBrowser>();
+
+/**
+ * ブラウザの再起動設定を取得（未設定の項目は既定値）
+ */
+function browserConfig(): Required<BrowserConfig> {
+  try {
+    return { ...DEFAULT_BROWSER_CONFIG, ...loadConfig().browser };
+  } catch {
+    return DEFAULT_BROWSER_CONFIG;
+  }
+}
+
+/**
+ * ブラウザを起動する
+ */
+async function launch(headless: boolean): Promise<ManagedBrowser> {
+  console.log('ブラウザを起動しています...');
+  const startTime = Date.now();
+
+  const browser = await chromium.launch({
+    headless: headless,
+    timeout: 30000,
+  });
+
+  const managed: ManagedBrowser = {
+    browser,
+    launchedAt: Date.now(),
+    checks: 0,
+    activeContexts: 0,
+    retiring: false,
+  };
+
+  // クラッシュなどで切断された場合は次回のチェックで起動し直す
+  browser.on('disconnected', () => {
+    if (browsers.get(headless) === managed) {
+      console.log('ブラウザが切断されました');
+      browsers.delete(headless);
+    }
+  });
+
+  recordBrowserLaunch((Date.now() - startTime) / 1000);
+  console.log(`ブラウザを起動しました (${Date.now() - startTime}ms)`);
+  return managed;
+}
+
+/**
+ * 使い回すブラウザを取得する（停止・寿命切れの場合は起動し直す）
+ */
+async function getBrowser(headless: boolean): Promise<ManagedBrowser> {
+  const current = browsers.get(headless);
+  if (current && current.browser.isConnected() && !current.retiring) {
+    return current;
+  }
+  if (current) {
+    browsers.delete(headless);
+  }
+
+  let pending = launching.get(headless);
+  if (!pending) {
+    pending = launch(headless).finally(() => launching.delete(headless));
+    launching.set(headless, pending);
+  }
+
+  const managed = await pending;
+  browsers.set(headless, managed);
+  return managed;
+}
+
+/**
+ * チェック1回分の新しいブラウザコンテキストを開く
+ */
+export async function acquireContext(headless: boolean): Promise<BrowserContext> {
+  const managed = await getBrowser(headless);
+  const context = await managed.browser.newContext({
+    userAgent: USER_AGENT,
+  });
+
+  managed.checks++;
+  managed.activeContexts++;
+  contextOwners.set(context, managed);
+
+  // 一定回数・一定時間使ったブラウザは、使用中のチェックが終わったら再起動する
+  const config = browserConfig();
+  const ageMinutes = (Date.now() - managed.launchedAt) / 60000;
+  if (managed.checks >= config.max_checks || ageMinutes >= config.max_age_minutes) {
+    console.log(`ブラウザを再起動します（${managed.checks}回使用・${Math.floor(ageMinutes)}分経過）`);
+    managed.retiring = true;
+    if (browsers.get(headless) === managed) {
+      browsers.delete(headless);
+    }
+  }
+
+  return context;
+}
+
+/**
+ * チェックで使ったブラウザコンテキストを閉じる
+ */
+export async function releaseContext(context: BrowserContext): Promise<void> {
+  const managed = contextOwners.get(context);
+
+  try {
+    await context.close();
+  } catch (error) {
+    console.error('ブラウザコンテキストのクローズに失敗:', error);
+  }
+
+  if (!managed) {
+    return;
+  }
+  managed.activeContexts--;
+
+  if (managed.retiring && managed.activeContexts <= 0) {
+    await closeBrowser(managed);
+  }
+}
+
+/**
+ * ブラウザを閉じる
+ */
+async function closeBrowser(managed: ManagedBrowser): Promise<void> {
+  try {
+    if (managed.browser.isConnected()) {
+      await managed.browser.close();
+    }
+  } catch (error) {
+    console.error('ブラウザのクローズに失敗:', error);
+  }
+}
+
+/**
+ * 使い回している全てのブラウザを閉じる（監視停止時・プロセス終了時）
+ * force が false の場合、チェック中のブラウザはそのチェックが終わってから閉じる
+ */
+export async function shutdownBrowser(force: boolean = false): Promise<void> {
+  await Promise.allSettled([...launching.values()]);
+
+  const managedBrowsers = [...browsers.values()];
+  browsers.clear();
+  if (managedBrowsers.length === 0) {
+    return;
+  }
+
+  console.log('ブラウザを終了しています...');
+  await Promise.all(managedBrowsers.map(async managed => {
+    if (managed.activeContexts > 0 && !force) {
+      managed.retiring = true;
+      return;
+    }
+    await closeBrowser(managed);
+  }));
+}
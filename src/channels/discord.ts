@@ -0,0 +1,35 @@
+import type { DiscordChannelConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { assertOk, truncate } from './format';
+import { readFileSync } from 'fs';
+
+// Discord のメッセージ本文の上限
+const DISCORD_MAX_LENGTH = 2000;
+
+/**
+ * Discord Webhook に通知を送信する（スクリーンショットを添付）
+ */
+export async function sendDiscord(
+  channel: DiscordChannelConfig,
+  message: NotificationMessage
+): Promise<void> {
+  const payload = {
+    content: truncate(`**${message.title}**\n${message.text}`, DISCORD_MAX_LENGTH),
+  };
+
+  const form = new FormData();
+  form.append('payload_json', JSON.stringify(payload));
+  if (message.screenshotPath) {
+    form.append(
+      'files[0]',
+      new Blob([readFileSync(message.screenshotPath)], { type: 'image/png' }),
+      'property_screenshot.png'
+    );
+  }
+
+  const response = await fetch(channel.webhook_url, {
+    method: 'POST',
+    body: form,
+  });
+  await assertOk(response, 'Discord');
+}
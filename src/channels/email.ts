@@ -0,0 +1,77 @@
+import nodemailer from 'nodemailer';
+import type { Config, EmailChannelConfig, SmtpConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { SCREENSHOT_CID, floorPlanCid } from '../templates';
+import { readFileSync } from 'fs';
+
+/**
+ * SMTP設定からトランスポーターを作成する
+ */
+export function createSmtpTransport(smtp: SmtpConfig) {
+  return nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.security === 'ssl',
+    requireTLS: smtp.security === 'starttls',
+    ignoreTLS: smtp.security === 'none',
+    auth: smtp.auth_method === 'none'
+      ? undefined
+      : {
+          user: smtp.user,
+          pass: smtp.password,
+        },
+    authMethod: smtp.auth_method === 'none' ? undefined : smtp.auth_method.toUpperCase(),
+    tls: {
+      rejectUnauthorized: smtp.reject_unauthorized ?? true,
+    },
+  });
+}
+
+/**
+ * メール通知を送信する
+ */
+export async function sendEmail(
+  channel: EmailChannelConfig,
+  message: NotificationMessage,
+  config: Config
+): Promise<void> {
+  const transporter = createSmtpTransport(config.smtp);
+
+  // メール本文
+  const mailOptions = {
+    from: message.recipients.sender,
+    to: message.recipients.to.join(', '),
+    subject: message.title,
+    text: message.text,
+    html: message.html,
+    // HTML本文がある場合はスクリーンショット・間取り図をインライン画像として埋め込む
+    attachments: [
+      ...(message.screenshotPath
+        ? [
+            {
+              filename: 'property_screenshot.png',
+              content: readFileSync(message.screenshotPath),
+              cid: message.html ? SCREENSHOT_CID : undefined,
+            },
+          ]
+        : []),
+      ...(message.extraScreenshotPaths ?? []).map((path, index) => ({
+        filename: `property_screenshot_p${index + 2}.png`,
+        content: readFileSync(path),
+      })),
+      ...(message.listings ?? []).flatMap((listing, index) =>
+        listing.detail?.floor_plan_path
+          ? [
+              {
+                filename: `floorplan_${index + 1}.png`,
+                content: readFileSync(listing.detail.floor_plan_path),
+                cid: message.html ? floorPlanCid(index) : undefined,
+              },
+            ]
+          : []
+      ),
+    ],
+  };
+
+  await transporter.sendMail(mailOptions);
+}
@@ -0,0 +1,50 @@
+import type { Listing, ListingDetail } from '../scraper';
+
+/**
+ * 物件一覧をテキストに整形する（1物件1行。詳細ページの情報があれば続く行に字下げして表示）
+ */
+export function formatListings(listings: Listing[]): string {
+  return listings
+    .map(listing => [
+      `・${listing.name}（${listing.area}） ${listing.madori} ${listing.floor_area} ${listing.floor}階 家賃${listing.rent} 共益費${listing.common_fee}`,
+      ...formatDetail(listing.detail).map(line => `　${line}`),
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * 詳細ページの情報をテキストの行にする
+ */
+function formatDetail(detail: ListingDetail | undefined): string[] {
+  if (!detail) {
+    return [];
+  }
+
+  const rentBreakdown = Object.entries(detail.rent_breakdown)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join(' / ');
+
+  return [
+    detail.address ? `所在地: ${detail.address}` : '',
+    rentBreakdown,
+    detail.application_deadline ? `申込期限: ${detail.application_deadline}` : '',
+    detail.notes ? `備考: ${detail.notes.replace(/\n/g, ' ')}` : '',
+  ].filter(line => line !== '');
+}
+
+/**
+ * 文字数制限のあるチャネル向けに本文を切り詰める
+ */
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * HTTPレスポンスが失敗していればエラーにする
+ */
+export async function assertOk(response: Response, channel: string): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`${channel}: HTTP ${response.status} ${body.slice(0, 200)}`.trim());
+  }
+}
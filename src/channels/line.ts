@@ -0,0 +1,35 @@
+import type { LineChannelConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { assertOk, truncate } from './format';
+
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+
+// LINE のテキストメッセージの上限
+const LINE_MAX_LENGTH = 5000;
+
+/**
+ * LINE Messaging API でプッシュメッセージを送信する
+ * 画像メッセージは公開URLが必要なため、物件一覧をテキストで送信する
+ */
+export async function sendLine(
+  channel: LineChannelConfig,
+  message: NotificationMessage
+): Promise<void> {
+  const response = await fetch(LINE_PUSH_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${channel.channel_access_token}`,
+    },
+    body: JSON.stringify({
+      to: channel.to,
+      messages: [
+        {
+          type: 'text',
+          text: truncate(`${message.title}\n${message.text}`, LINE_MAX_LENGTH),
+        },
+      ],
+    }),
+  });
+  await assertOk(response, 'LINE');
+}
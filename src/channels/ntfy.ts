@@ -0,0 +1,48 @@
+import type { NtfyChannelConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { assertOk } from './format';
+import { readFileSync } from 'fs';
+
+const DEFAULT_NTFY_SERVER = 'https://ntfy.sh';
+
+/**
+ * ヘッダーに日本語を含められるよう RFC 2047 形式にエンコードする
+ */
+function encodeHeader(value: string): string {
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * ntfy に通知を送信する
+ * スクリーンショットがある場合は添付ファイルとして送信し、本文はヘッダーで渡す
+ */
+export async function sendNtfy(
+  channel: NtfyChannelConfig,
+  message: NotificationMessage
+): Promise<void> {
+  const url = `${(channel.server ?? DEFAULT_NTFY_SERVER).replace(/\/+$/, '')}/${encodeURIComponent(channel.topic)}`;
+  const headers: Record<string, string> = {
+    Title: encodeHeader(message.title),
+    Tags: 'house',
+  };
+  if (channel.token) {
+    headers.Authorization = `Bearer ${channel.token}`;
+  }
+
+  const response = message.screenshotPath
+    ? await fetch(url, {
+        method: 'PUT',
+        headers: {
+          ...headers,
+          Message: encodeHeader(message.text),
+          Filename: 'property_screenshot.png',
+        },
+        body: readFileSync(message.screenshotPath),
+      })
+    : await fetch(url, {
+        method: 'POST',
+        headers,
+        body: message.text,
+      });
+  await assertOk(response, 'ntfy');
+}
@@ -0,0 +1,21 @@
+import type { SlackChannelConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { assertOk } from './format';
+
+/**
+ * Slack Incoming Webhook に通知を送信する
+ * Incoming Webhook はファイルを添付できないため、物件一覧を本文に含める
+ */
+export async function sendSlack(
+  channel: SlackChannelConfig,
+  message: NotificationMessage
+): Promise<void> {
+  const response = await fetch(channel.webhook_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      text: `*${message.title}*\n${message.text}`,
+    }),
+  });
+  await assertOk(response, 'Slack');
+}
@@ -0,0 +1,33 @@
+import type { WebhookChannelConfig } from '../config';
+import type { NotificationMessage } from '../notifier';
+import { assertOk } from './format';
+import { readFileSync } from 'fs';
+
+/**
+ * 汎用Webhookに通知内容をJSONで送信する
+ */
+export async function sendWebhook(
+  channel: WebhookChannelConfig,
+  message: NotificationMessage
+): Promise<void> {
+  const body = {
+    title: message.title,
+    text: message.text,
+    profile: message.profile,
+    listings: message.listings ?? [],
+    // スクリーンショットは include_screenshot が有効な場合のみ Base64 で含める
+    screenshot: channel.include_screenshot && message.screenshotPath
+      ? readFileSync(message.screenshotPath).toString('base64')
+      : undefined,
+  };
+
+  const response = await fetch(channel.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...channel.headers,
+    },
+    body: JSON.stringify(body),
+  });
+  await assertOk(response, 'Webhook');
+}
@@ -0,0 +1,381 @@
+import { parseArgs } from 'util';
+import { checkConfigFile, onConfigChange, watchConfigFile, unwatchConfigFile, loadConfig, migrateConfigFile } from './config';
+import { startWatcher, stopWatcher, runOnce, applyConfig, type CheckResult } from './watcher';
+import { queryLogs, type LogEntry, type LogQuery } from './history';
+import { sendTestNotification } from './notifier';
+import { setBroadcastCallback } from './events';
+import { startOutbox, stopOutbox } from './outbox';
+import { startJanitor, stopJanitor } from './janitor';
+import { shutdownBrowser } from './browser';
+import { closeDatabase } from './db';
+import { ConfigValidationError } from './schema';
+
+/**
+ * Webサーバーを起動せずに使うコマンド（cron・systemd・スクリプトから使う）
+ *
+ * 終了コード:
+ * - check: 0 = 物件あり / 1 = 該当なし / 2 = エラー
+ * - その他: 0 = 成功 / 1 = 失敗（設定が不正・通知の送信に失敗など） / 2 = エラー・引数が不正
+ */
+
+export const EXIT_FOUND = 0;
+export const EXIT_NOT_FOUND = 1;
+export const EXIT_ERROR = 2;
+
+// logs --follow で新しいログを確認する間隔
+const FOLLOW_INTERVAL_MS = 2000;
+
+const USAGE = `使い方: bun run index.ts <コマンド> [オプション]
+
+コマンド:
+  （なし）                 Webサーバーを起動する
+  check --once             1回チェックして終了する（終了コード 0: 物件あり / 1: 該当なし / 2: エラー）
+      --profile <名前>     指定した検索プロファイルだけチェックする
+      --json               結果をJSONで出力する
+  watch                    Webサーバーを起動せずに監視する（全てのプロファイルの監視が終わったら終了）
+      --json               状態の変化などのイベントを1行1件のJSONで出力する
+  logs                     実行履歴を表示する
+      --limit <件数>       件数（既定: 20）
+      --profile <名前>     検索プロファイルで絞り込む
+      --found              物件が見つかったログだけ表示する
+      --errors             エラーのログだけ表示する
+      --since <日時>       この日時以降（ISO 8601）
+      --until <日時>       この日時以前（ISO 8601）
+      --search <文字列>    メッセージを検索する
+      --follow, -f         新しいログを表示し続ける
+      --json               1行1件のJSONで出力する
+  config validate          設定ファイルを調べる（終了コード 0: 正しい / 1: 不正）
+      --file <パス>        調べるファイル（既定: config.yaml）
+      --json               結果をJSONで出力する
+  notify --test            テスト通知を送信する（終了コード 0: 全て成功 / 1: 失敗あり）
+      --channel <名前>     指定したチャネルだけに送信する（複数指定可）
+      --json               結果をJSONで出力する
+  help                     この説明を表示する`;
+
+/**
+ * コマンドの引数が不正な場合のエラー
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * --json の場合は結果だけを標準出力に出し、途中経過のログは標準エラー出力に回す
+ */
+function useJsonOutput(): void {
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * JSONを1行で標準出力に書く
+ */
+function writeJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value) + '\n');
+}
+
+/**
+ * 日時を表示用にする
+ */
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' });
+}
+
+/**
+ * check --once: 1回チェックして、結果を終了コードで返す
+ */
+async function checkCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      once: { type: 'boolean' },
+      profile: { type: 'string' },
+      json: { type: 'boolean' },
+    },
+  });
+  if (!values.once) {
+    throw new UsageError('check は --once を指定してください（続けて監視する場合は watch）');
+  }
+  if (values.json) {
+    useJsonOutput();
+  }
+
+  let results: CheckResult[];
+  try {
+    results = await runOnce(values.profile);
+  } finally {
+    await shutdownBrowser(true);
+  }
+
+  // 物件が見つかった場合は他のプロファイルが失敗していても「物件あり」とする
+  const exitCode = results.some(result => result.outcome === 'found')
+    ? EXIT_FOUND
+    : results.some(result => result.outcome !== 'not_found')
+      ? EXIT_ERROR
+      : EXIT_NOT_FOUND;
+
+  if (values.json) {
+    writeJson({ exit_code: exitCode, results });
+  } else {
+    for (const result of results) {
+      const mark = result.outcome === 'found' ? '✅' : result.outcome === 'not_found' ? '➖' : '❌';
+      process.stdout.write(`${mark} [${result.profile}] ${result.message}\n`);
+      for (const listing of result.listings ?? []) {
+        process.stdout.write(`    ${[listing.name, listing.madori, listing.floor_area, listing.rent].filter(Boolean).join(' / ')}\n`);
+      }
+    }
+  }
+  return exitCode;
+}
+
+/**
+ * watch: Webサーバーを起動せずに監視する
+ * 全てのプロファイルの監視が終わるか、SIGINT・SIGTERM を受け取ったら終了する
+ */
+async function watchCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      json: { type: 'boolean' },
+    },
+  });
+  if (values.json) {
+    useJsonOutput();
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    let stopping = false;
+    const finish = async (exitCode: number) => {
+      if (stopping) {
+        return;
+      }
+      stopping = true;
+      unwatchConfigFile();
+      stopOutbox();
+      stopJanitor();
+      await shutdownBrowser(true);
+      resolve(exitCode);
+    };
+
+    setBroadcastCallback(message => {
+      if (values.json) {
+        writeJson(message);
+      }
+      if (message.type === 'status_update' && !message.data.isRunning) {
+        finish(0);
+      }
+    });
+
+    const stop = () => {
+      console.log('\n監視を終了しています...');
+      stopWatcher();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    try {
+      migrateConfigFile();
+      onConfigChange(applyConfig);
+      watchConfigFile();
+      startOutbox();
+      startJanitor();
+      startWatcher();
+    } catch (error) {
+      unwatchConfigFile();
+      stopOutbox();
+      stopJanitor();
+      reject(error);
+    }
+  });
+}
+
+/**
+ * 実行履歴1件を表示用の1行にする
+ */
+function formatLog(entry: LogEntry): string {
+  const mark = entry.found ? '✅' : entry.error ? '❌' : '➖';
+  return `${formatTime(entry.timestamp)} ${mark} ${entry.profile ? `[${entry.profile}] ` : ''}${entry.message}`;
+}
+
+/**
+ * logs: 実行履歴を表示する（古い順）
+ */
+async function logsCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      limit: { type: 'string' },
+      profile: { type: 'string' },
+      found: { type: 'boolean' },
+      errors: { type: 'boolean' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      search: { type: 'string' },
+      follow: { type: 'boolean', short: 'f' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new UsageError(`--limit は1以上の整数で指定してください: ${values.limit}`);
+  }
+  for (const [name, value] of [['since', values.since], ['until', values.until]] as const) {
+    if (value !== undefined && Number.isNaN(new Date(value).getTime())) {
+      throw new UsageError(`--${name} の日時が不正です: ${value}`);
+    }
+  }
+
+  const query: LogQuery = {
+    profile: values.profile,
+    found: values.found ? true : undefined,
+    error: values.errors ? true : undefined,
+    from: values.since,
+    to: values.until,
+    q: values.search,
+  };
+  const print = (entry: LogEntry) => values.json ? writeJson(entry) : process.stdout.write(formatLog(entry) + '\n');
+
+  const logs = queryLogs({ ...query, limit }).logs.reverse();
+  logs.forEach(print);
+  if (!values.follow) {
+    return 0;
+  }
+
+  // 新しいログを確認し続ける（Ctrl+C・SIGTERM で終了し、データベースを閉じる）
+  let following = true;
+  const stop = () => {
+    following = false;
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  let lastId = logs[logs.length - 1]?.id ?? queryLogs({ limit: 1 }).logs[0]?.id ?? 0;
+  while (following) {
+    await Bun.sleep(FOLLOW_INTERVAL_MS);
+    if (!following) {
+      break;
+    }
+    const newLogs = queryLogs({ ...query, limit: 500 }).logs
+      .filter(entry => entry.id !== undefined && entry.id > lastId)
+      .reverse();
+    newLogs.forEach(print);
+    lastId = newLogs[newLogs.length - 1]?.id ?? lastId;
+  }
+  return 0;
+}
+
+/**
+ * config validate: 設定ファイルを調べる
+ */
+async function configCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      file: { type: 'string' },
+      json: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+  if (positionals[0] !== 'validate' || positionals.length > 1) {
+    throw new UsageError('config validate を指定してください');
+  }
+
+  try {
+    const config = checkConfigFile(values.file);
+    if (values.json) {
+      writeJson({ valid: true, issues: [] });
+    } else {
+      const profiles = config.searches.filter(profile => profile.enabled).map(profile => profile.name);
+      process.stdout.write(`✅ 設定は正しい形式です（有効な検索プロファイル: ${profiles.join(', ') || 'なし'}）\n`);
+    }
+    return 0;
+  } catch (error) {
+    const issues = error instanceof ConfigValidationError
+      ? error.issues
+      : [{ path: '', message: error instanceof Error ? error.message : String(error) }];
+    if (values.json) {
+      writeJson({ valid: false, issues });
+    } else {
+      process.stdout.write('❌ 設定に問題があります\n');
+      for (const issue of issues) {
+        process.stdout.write(`  ${issue.path ? `${issue.path}: ` : ''}${issue.message}\n`);
+      }
+    }
+    return 1;
+  }
+}
+
+/**
+ * notify --test: テスト通知を送信する
+ */
+async function notifyCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      test: { type: 'boolean' },
+      channel: { type: 'string', multiple: true },
+      json: { type: 'boolean' },
+    },
+  });
+  if (!values.test) {
+    throw new UsageError('notify は --test を指定してください');
+  }
+  if (values.json) {
+    useJsonOutput();
+  }
+
+  const results = await sendTestNotification(loadConfig(), values.channel);
+  const exitCode = results.every(result => result.success) ? 0 : 1;
+
+  if (values.json) {
+    writeJson({ exit_code: exitCode, results });
+  } else {
+    for (const result of results) {
+      process.stdout.write(result.success ? `✅ ${result.channel}\n` : `❌ ${result.channel}: ${result.error}\n`);
+    }
+  }
+  return exitCode;
+}
+
+// コマンド名 → 処理
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  check: checkCommand,
+  watch: watchCommand,
+  logs: logsCommand,
+  config: configCommand,
+  notify: notifyCommand,
+};
+
+/**
+ * コマンドを実行し、終了コードを返す
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+  const run = command ? COMMANDS[command] : undefined;
+  if (!run) {
+    console.error(`不明なコマンドです: ${command}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    return await run(args);
+  } catch (error) {
+    if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+      console.error(`引数が不正です: ${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return EXIT_ERROR;
+  } finally {
+    closeDatabase();
+  }
+}
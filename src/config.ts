@@ -1,6 +1,11 @@
 import yaml from 'js-yaml';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { SCHEDULE_SCHEMA } from './schedule';
+import { MENSEKI_LABELS } from './selectors';
+import { validate, all, object, array, record, string, number, boolean, optional, refine, discriminated, childPath, ConfigValidationError, type Schema, type SchemaIssue } from './schema';
+import { resolveSecretReferences, preserveSecretReferences, secretsModifiedAt } from './secrets';
+import { broadcast } from './events';
+import { readFileSync, writeFileSync, existsSync, statSync, watch, type FSWatcher } from 'fs';
+import { join, dirname, basename } from 'path';
 
 export interface MadoriConfig {
   madori_1R1K_1LDK: boolean;
@@ -16,42 +21,324 @@ export interface SearchConfig {
   madori: MadoriConfig;
 }
 
+/**
+ * 名前付きの検索プロファイル
+ * 宛先・監視間隔・監視スケジュールは省略時に全体の設定を使用する
+ */
+export interface SearchProfile extends SearchConfig {
+  name: string;
+  enabled: boolean;
+  recipients?: string[];
+  interval_seconds?: number;
+  schedule?: ScheduleConfig; // 監視スケジュール（省略時は全体の設定）
+  subject?: string; // 通知の件名（{{count}} {{building}} {{profile}} {{timestamp}} を置き換え）
+}
+
+// 旧形式のGmail設定（読み込み時に smtp に変換）
 export interface GmailConfig {
   user: string;
   password: string;
 }
 
+// SMTPの接続方式
+// ssl: 接続時からTLS（通常465番） / starttls: STARTTLSを必須にする（通常587番） / none: 暗号化しない（ローカルのPostfixなど）
+export type SmtpSecurity = 'ssl' | 'starttls' | 'none';
+
+// SMTPの認証方式（none の場合は認証しない）
+export type SmtpAuthMethod = 'login' | 'plain' | 'cram-md5' | 'none';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  auth_method: SmtpAuthMethod;
+  user?: string;
+  password?: string;
+  reject_unauthorized?: boolean; // false にすると自己署名証明書などを許可（省略時 true）
+}
+
 export interface RecipientsConfig {
   sender: string;
   to: string[];
 }
 
+export interface EmailChannelConfig {
+  type: 'email'; // smtp・recipients の設定で送信
+}
+
+export interface SlackChannelConfig {
+  type: 'slack';
+  webhook_url: string; // Incoming Webhook のURL
+}
+
+export interface DiscordChannelConfig {
+  type: 'discord';
+  webhook_url: string;
+}
+
+export interface LineChannelConfig {
+  type: 'line';
+  channel_access_token: string; // Messaging API のチャネルアクセストークン
+  to: string; // 送信先のユーザーID・グループID
+}
+
+export interface NtfyChannelConfig {
+  type: 'ntfy';
+  server?: string; // 省略時は https://ntfy.sh
+  topic: string;
+  token?: string; // アクセストークン（認証が必要なサーバーの場合）
+}
+
+export interface WebhookChannelConfig {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+  include_screenshot?: boolean; // スクリーンショットを Base64 で含める
+}
+
+/**
+ * 通知チャネルの設定
+ * enabled を false にすると通知しない
+ */
+export type ChannelConfig = (
+  | EmailChannelConfig
+  | SlackChannelConfig
+  | DiscordChannelConfig
+  | LineChannelConfig
+  | NtfyChannelConfig
+  | WebhookChannelConfig
+) & {
+  name?: string; // 表示名（省略時は種類。チャネルを区別するため重複は不可）
+  enabled?: boolean;
+};
+
+// 送信に失敗した通知の再送信設定（logs/outbox.json に保存され、再起動後も再送信する）
+export interface OutboxConfig {
+  max_attempts?: number; // 最大試行回数（既定: 8）
+  base_delay_seconds?: number; // 最初の再送信までの秒数。以降は2倍ずつ延ばす（既定: 60）
+  max_delay_seconds?: number; // 再送信間隔の上限（既定: 3600）
+}
+
+// チェックが続けて失敗したときの監視間隔の延長と異常の通知
+export interface CircuitBreakerConfig {
+  failure_threshold?: number; // この回数続けて失敗したら異常として通知（既定: 5）
+  max_backoff_seconds?: number; // 失敗が続いたときに延ばす監視間隔の上限（既定: 3600）
+}
+
+// Web UI・API のログイン設定（password・tokens のどちらかを設定するとログインが必要になる）
+export interface AuthConfig {
+  password?: string; // Web UI のログインパスワード
+  tokens?: string[]; // API 用のトークン（Authorization: Bearer <token>）
+  session_hours?: number; // ログインの有効時間（既定: 168）
+  allowed_origins?: string[]; // 別のオリジンからのアクセスを許可する場合のオリジン（例: https://example.com）
+}
+
+// /healthz で異常とみなす条件
+export interface HealthConfig {
+  max_success_age_seconds?: number; // 最後に成功したチェックからこの秒数が経ったら異常（既定: 3600）
+}
+
+// 使い回すブラウザの再起動設定
+export interface BrowserConfig {
+  max_checks?: number; // この回数のチェックに使ったら再起動（既定: 50）
+  max_age_minutes?: number; // 起動からこの分数が経ったら再起動（既定: 60）
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// 監視スケジュールのルール
+// interval_seconds: 曜日・時間帯（start〜end）の間はこの間隔で監視する
+// cron: cron式（分 時 日 月 曜日）の時刻にも監視する（days・start・end は使わない）
+export interface ScheduleRule {
+  days?: Weekday[]; // 曜日（省略時は毎日）
+  start?: string; // 開始時刻 HH:MM（省略時は 00:00）
+  end?: string; // 終了時刻 HH:MM（省略時は 24:00。開始より前の場合は翌日のこの時刻まで）
+  interval_seconds?: number;
+  cron?: string;
+}
+
+// 監視しない時間帯
+export interface QuietHours {
+  days?: Weekday[];
+  start: string;
+  end: string;
+}
+
+// 監視スケジュール（ルールに一致しない時間帯は interval_seconds の間隔で監視する）
+export interface ScheduleConfig {
+  timezone?: string; // 既定: Asia/Tokyo
+  rules?: ScheduleRule[]; // 先に書いたルールが優先
+  quiet_hours?: QuietHours[];
+  jitter_seconds?: number; // 実行時刻をこの秒数以内でランダムにずらす
+}
+
+// 実行履歴の種類ごとの保持期間・件数（どちらかを超えたものを削除。省略時は無制限）
+export interface RetentionRule {
+  max_age_days?: number;
+  max_count?: number;
+}
+
+// 実行履歴とスクリーンショットなどの保存ファイルの保持設定
+export interface RetentionConfig {
+  hits?: RetentionRule; // 物件が見つかったログ（既定: 無期限）
+  no_hits?: RetentionRule; // 物件が見つからなかったログ（既定: 1日）
+  errors?: RetentionRule; // エラーのログ（既定: 1日）
+  max_artifact_mb?: number; // logs/ 内のスクリーンショット・HTMLの合計サイズの上限（MB。超えた分は古いものから削除）
+  interval_minutes?: number; // 古いログ・ファイルを削除する間隔（既定: 60）
+}
+
+// 検索ページの取得先（オフラインでの動作確認用）
+export interface ScraperConfig {
+  target_url?: string; // 検索ページのURL（既定: JKKねっと）
+  record_dir?: string; // 指定するとアクセスしたページをこのディレクトリにHTMLで保存する
+  replay_dir?: string; // 指定するとこのディレクトリに保存したページを代替サーバーから返す（record_dir より優先）
+  max_pages?: number; // 読み取る検索結果の最大ページ数（既定: 10）
+  fetch_details?: boolean; // 各物件の詳細ページを開いて所在地・家賃の内訳などを読み取る（既定: true）
+  failure_artifacts?: boolean; // エラーで検索が止まったときに Playwright のトレース・HTML・スクリーンショットを保存する（既定: false）
+}
+
+// 物件が見つかったときの動作
+// stop_on_found: 通知して監視を停止 / notify_new: 新着・変更のある物件のみ通知して監視を継続
+export type WatchMode = 'stop_on_found' | 'notify_new';
+
+// 他のチェックの実行中に次のチェックが要求されたときの扱い
+// skip: 実行しない / queue: 終わってから順番に実行 / coalesce: 順番待ちの同じチェックとまとめる
+export type CheckOverlapPolicy = 'skip' | 'queue' | 'coalesce';
+
 export interface Config {
+  config_version?: number; // 設定ファイルの形式のバージョン（古い形式は読み込み時に変換する）
   interval_seconds: number;
   headless: boolean;
   auto_shutdown: boolean; // ブラウザを閉じたらサーバーも停止
-  gmail: GmailConfig;
+  watch_mode: WatchMode;
+  check_overlap?: CheckOverlapPolicy; // 既定: coalesce
+  smtp: SmtpConfig;
   recipients: RecipientsConfig;
-  search: SearchConfig;
+  channels: ChannelConfig[]; // 通知チャネル（省略時はメールのみ）
+  outbox?: OutboxConfig;
+  browser?: BrowserConfig;
+  circuit_breaker?: CircuitBreakerConfig;
+  health?: HealthConfig;
+  auth?: AuthConfig;
+  scraper?: ScraperConfig;
+  retention?: RetentionConfig;
+  schedule?: ScheduleConfig;
+  searches: SearchProfile[];
 }
 
+// 旧形式（検索条件が1つだけ・Gmail専用）の設定ファイル
+type LegacyConfig = Config & { search?: SearchConfig; gmail?: GmailConfig };
+
 const CONFIG_PATH = join(process.cwd(), 'config.yaml');
 
+// 設定の変更元（api: 画面・APIから保存 / file: config.yaml を直接編集）
+export type ConfigChangeSource = 'api' | 'file';
+type ConfigChangeListener = (config: Config, source: ConfigChangeSource) => void;
+const configChangeListeners = new Set<ConfigChangeListener>();
+
+// 最後に読み書きした設定ファイルの内容（自分で書き込んだ変更をファイルの監視で二重に扱わないため）
+let lastConfigContent: string | null = null;
+let configWatcher: FSWatcher | null = null;
+let configWatchTimer: ReturnType<typeof setTimeout> | null = null;
+
+// バリデーション済みの設定（保存・config.yaml の編集・secrets.enc の更新で作り直す）
+let cachedConfig: { configModifiedAt: number; secretsModifiedAt: number; config: Config } | null = null;
+
+// 設定ファイルの形式のバージョン（形式を変えたら上げて、CONFIG_MIGRATIONS に変換を追加する）
+export const CONFIG_VERSION = 2;
+
+/**
+ * 設定ファイルの形式の変換（CONFIG_MIGRATIONS[n] でバージョン n+1 から n+2 に変換する）
+ * config_version がないファイルはバージョン1とみなす
+ */
+const CONFIG_MIGRATIONS: ((config: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 1 → 2: search を searches（プロファイル1件）に、gmail を Gmail の SMTP 設定に変換
+  (config) => {
+    const { search, gmail, ...rest } = config as unknown as LegacyConfig;
+
+    if (search && !rest.searches) {
+      rest.searches = [{ name: 'default', enabled: true, ...search }];
+    }
+
+    if (gmail && !rest.smtp) {
+      rest.smtp = {
+        host: 'smtp.gmail.com',
+        port: 465,
+        security: 'ssl',
+        auth_method: 'login',
+        user: gmail.user,
+        password: gmail.password,
+      };
+    }
+
+    return rest as unknown as Record<string, unknown>;
+  },
+];
+
 /**
  * 設定ファイルを読み込む
+ * バリデーション済みの設定を使い回し、保存・config.yaml の編集・secrets.enc の更新があったときだけ読み込み直す
+ * 古い形式のファイルはメモリ上で変換する（ファイルの書き換えは起動時の migrateConfigFile で行う）
  */
 export function loadConfig(): Config {
+  if (
+    cachedConfig?.configModifiedAt === configModifiedAt()
+    && cachedConfig.secretsModifiedAt === secretsModifiedAt()
+  ) {
+    return structuredClone(cachedConfig.config);
+  }
+
+  return structuredClone(readConfigFile());
+}
+
+/**
+ * config.yaml の更新日時（ファイルがなければ0）
+ */
+function configModifiedAt(): number {
+  return existsSync(CONFIG_PATH) ? statSync(CONFIG_PATH).mtimeMs : 0;
+}
+
+/**
+ * 設定ファイルを読み込んでバリデーションし、キャッシュを置き換える
+ * 不正な内容の場合はキャッシュを残したままエラーにする
+ */
+function readConfigFile(): Config {
   if (!existsSync(CONFIG_PATH)) {
     throw new Error(`設定ファイルが見つかりません: ${CONFIG_PATH}`);
   }
+  const modifiedAt = { configModifiedAt: configModifiedAt(), secretsModifiedAt: secretsModifiedAt() };
+  const config = prepareConfig(migrateConfig(yaml.load(readFileSync(CONFIG_PATH, 'utf8'))));
+  cachedConfig = { ...modifiedAt, config };
+  return config;
+}
 
-  const fileContent = readFileSync(CONFIG_PATH, 'utf8');
-  const config = yaml.load(fileContent) as Config;
+/**
+ * 設定ファイルを調べる（古い形式のファイルも変換して調べるが、ファイルは書き換えない）
+ */
+export function checkConfigFile(path: string = CONFIG_PATH): Config {
+  if (!existsSync(path)) {
+    throw new Error(`設定ファイルが見つかりません: ${path}`);
+  }
+  return prepareConfig(migrateConfig(yaml.load(readFileSync(path, 'utf8'))));
+}
+
+/**
+ * 読み込んだ設定の参照を置き換え、既定値を補ってバリデーションする
+ */
+function prepareConfig(raw: unknown): Config {
+  // ${ENV:NAME}・${SECRET:NAME} の参照は実際の値に置き換える
+  const config = resolveSecretReferences(raw) as Config;
 
   // デフォルト値の設定
   if (config.auto_shutdown === undefined) {
     config.auto_shutdown = false;
   }
+  if (config.watch_mode === undefined) {
+    config.watch_mode = 'stop_on_found';
+  }
+  if (config.channels === undefined) {
+    config.channels = [{ type: 'email' }];
+  }
 
   // バリデーション
   validateConfig(config);
@@ -59,37 +346,387 @@ export function loadConfig(): Config {
   return config;
 }
 
+/**
+ * 設定のキャッシュを捨てる（次の loadConfig でファイルから読み込み直す）
+ */
+export function invalidateConfigCache(): void {
+  cachedConfig = null;
+}
+
+/**
+ * 古い形式の設定ファイルを現在の形式に変換して保存し直す（起動時に1回だけ呼ぶ）
+ * 元のファイルは config.yaml.v<バージョン>.bak に残す
+ */
+export function migrateConfigFile(): void {
+  if (!existsSync(CONFIG_PATH)) {
+    return;
+  }
+  const fileContent = readFileSync(CONFIG_PATH, 'utf8');
+  const raw = yaml.load(fileContent);
+  const version = configVersion(raw);
+  if (version >= CONFIG_VERSION) {
+    return;
+  }
+
+  try {
+    const migrated = migrateConfig(raw);
+    writeFileSync(`${CONFIG_PATH}.v${version}.bak`, fileContent, 'utf8');
+    lastConfigContent = dumpConfig(migrated);
+    writeFileSync(CONFIG_PATH, lastConfigContent, 'utf8');
+    invalidateConfigCache();
+    console.log(`設定ファイルをバージョン${version}からバージョン${CONFIG_VERSION}の形式に変換しました`);
+  } catch (error) {
+    console.error('設定ファイルの形式の変換に失敗:', error);
+  }
+}
+
+/**
+ * ログイン設定だけを読み込む
+ * 他の設定項目が不正な場合でもログインを求められるよう、バリデーションはしない
+ */
+export function loadAuthConfig(): AuthConfig | undefined {
+  if (!existsSync(CONFIG_PATH)) {
+    return undefined;
+  }
+  const config = yaml.load(readFileSync(CONFIG_PATH, 'utf8')) as Partial<Config> | undefined;
+  return resolveSecretReferences(config?.auth);
+}
+
+/**
+ * 設定の形式のバージョン（config_version がなければ1）
+ */
+function configVersion(config: unknown): number {
+  const version = (config as { config_version?: unknown } | null)?.config_version;
+  return typeof version === 'number' ? version : 1;
+}
+
+/**
+ * 古い形式の設定を現在の形式に変換する
+ * 画面・APIから受け取った設定にも使う
+ */
+export function migrateConfig(config: unknown): Config {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ConfigValidationError([{ path: '', message: '設定の形式が不正です' }]);
+  }
+
+  const version = configVersion(config);
+  if (!Number.isInteger(version) || version < 1 || version > CONFIG_VERSION) {
+    throw new ConfigValidationError([{
+      path: 'config_version',
+      message: `対応していないバージョンです: ${version}（このバージョンのJKK Watcherは${CONFIG_VERSION}まで対応）`,
+    }]);
+  }
+
+  let migrated = config as Record<string, unknown>;
+  for (let from = version; from < CONFIG_VERSION; from++) {
+    migrated = CONFIG_MIGRATIONS[from - 1]!(migrated);
+  }
+
+  // config_version をファイルの先頭に書く
+  const { config_version: _version, ...rest } = migrated;
+  return { config_version: CONFIG_VERSION, ...rest } as unknown as Config;
+}
+
+/**
+ * 設定をYAMLにする
+ */
+function dumpConfig(config: unknown): string {
+  return yaml.dump(config, {
+    indent: 2,
+    lineWidth: -1,
+  });
+}
+
 /**
  * 設定ファイルを保存する
+ * 元のファイルで ${ENV:NAME}・${SECRET:NAME} の参照だった項目は、値が変わっていなければ参照のまま保存する
  */
 export function saveConfig(config: Config): void {
   validateConfig(config);
-  const yamlContent = yaml.dump(config, {
-    indent: 2,
-    lineWidth: -1,
+  const original = existsSync(CONFIG_PATH) ? yaml.load(readFileSync(CONFIG_PATH, 'utf8')) : undefined;
+  lastConfigContent = dumpConfig(preserveSecretReferences(config, original));
+  writeFileSync(CONFIG_PATH, lastConfigContent, 'utf8');
+  invalidateConfigCache();
+
+  // 既定値を補った設定を通知する
+  notifyConfigChange(loadConfig(), 'api');
+}
+
+/**
+ * 設定の変更を受け取る（戻り値の関数で解除）
+ */
+export function onConfigChange(listener: ConfigChangeListener): () => void {
+  configChangeListeners.add(listener);
+  return () => configChangeListeners.delete(listener);
+}
+
+/**
+ * 設定の変更を通知する（1つの通知先が失敗しても他には通知する）
+ */
+function notifyConfigChange(config: Config, source: ConfigChangeSource): void {
+  for (const listener of configChangeListeners) {
+    try {
+      listener(config, source);
+    } catch (error) {
+      console.error('設定の変更の反映に失敗:', error);
+    }
+  }
+}
+
+/**
+ * config.yaml の直接の編集を監視し、変更を通知する
+ * エディタは別のファイルに書いてから置き換えることがあるため、ディレクトリごと監視する
+ */
+export function watchConfigFile(): void {
+  if (configWatcher) {
+    return;
+  }
+  lastConfigContent = existsSync(CONFIG_PATH) ? readFileSync(CONFIG_PATH, 'utf8') : null;
+
+  configWatcher = watch(dirname(CONFIG_PATH), (_event, filename) => {
+    if (filename !== basename(CONFIG_PATH)) {
+      return;
+    }
+    // 書きかけの内容を読まないよう、変更が落ち着いてから読み込む
+    if (configWatchTimer) {
+      clearTimeout(configWatchTimer);
+    }
+    configWatchTimer = setTimeout(reloadConfigFile, 500);
   });
-  writeFileSync(CONFIG_PATH, yamlContent, 'utf8');
 }
 
 /**
- * 設定の妥当性チェック
+ * config.yaml の監視を終了する
  */
-export function validateConfig(config: Config): void {
-  if (!config.gmail?.user || !config.gmail?.password) {
-    throw new Error('Gmail設定が不正です');
+export function unwatchConfigFile(): void {
+  if (configWatchTimer) {
+    clearTimeout(configWatchTimer);
+    configWatchTimer = null;
+  }
+  configWatcher?.close();
+  configWatcher = null;
+}
+
+/**
+ * 編集された config.yaml を読み込み、内容が変わっていれば通知する
+ * 不正な内容の場合は反映せず、それまでの設定で監視を続ける
+ */
+function reloadConfigFile(): void {
+  configWatchTimer = null;
+  if (!existsSync(CONFIG_PATH)) {
+    return;
   }
+  const content = readFileSync(CONFIG_PATH, 'utf8');
+  if (content === lastConfigContent) {
+    return;
+  }
+  lastConfigContent = content;
 
-  if (!config.recipients?.sender || !config.recipients?.to?.length) {
-    throw new Error('メール送信先設定が不正です');
+  try {
+    const config = structuredClone(readConfigFile());
+    console.log('config.yaml の変更を読み込みました');
+    notifyConfigChange(config, 'file');
+  } catch (error) {
+    console.error('変更された config.yaml が不正なため反映しません:', error);
+    broadcast({
+      type: 'notification',
+      data: { type: 'error', message: `config.yaml の変更を反映できません: ${error instanceof Error ? error.message : String(error)}` },
+    });
   }
+}
 
-  if (!config.search?.kana_name) {
-    throw new Error('検索条件が不正です');
+// メールアドレス（「名前 <address>」の形式も可）
+const EMAIL_PATTERN = /^(?:[^<>]*<\s*)?[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+(?:\s*>)?$/;
+const EMAIL_SCHEMA = string({ pattern: EMAIL_PATTERN, message: 'メールアドレスの形式が不正です' });
+
+/**
+ * URL の項目
+ */
+function url(message: string = 'URLの形式が不正です'): Schema {
+  return refine<string>(string({ required: message }), (value, path, issues) => {
+    if (!URL.canParse(value)) {
+      issues.push({ path, message });
+    }
+  });
+}
+
+const SMTP_SCHEMA: Schema = refine<SmtpConfig>(object({
+  host: string({ required: 'SMTPサーバーを入力してください' }),
+  port: number({ integer: true, min: 1, max: 65535, message: 'SMTPのポート番号が不正です' }),
+  security: string({ oneOf: ['ssl', 'starttls', 'none'], message: 'SMTPの接続方式が不正です' }),
+  auth_method: string({ oneOf: ['login', 'plain', 'cram-md5', 'none'], message: 'SMTPの認証方式が不正です' }),
+  reject_unauthorized: optional(boolean()),
+}), (smtp, path, issues) => {
+  if (smtp.auth_method !== 'none') {
+    object({
+      user: string({ required: 'SMTPのユーザー名を入力してください' }),
+      password: string({ required: 'SMTPのパスワードを入力してください' }),
+    })(smtp, path, issues);
   }
+});
+
+const RECIPIENTS_SCHEMA: Schema = object({
+  sender: EMAIL_SCHEMA,
+  to: array(EMAIL_SCHEMA, { minLength: 1, message: '送信先メールアドレスを1つ以上入力してください' }),
+});
+
+// 通知チャネルに共通の項目
+const CHANNEL_FIELDS = {
+  name: optional(string()),
+  enabled: optional(boolean()),
+};
+
+const CHANNEL_SCHEMA: Schema = discriminated('type', {
+  email: object(CHANNEL_FIELDS),
+  slack: object({ ...CHANNEL_FIELDS, webhook_url: url('Webhook URLを入力してください') }),
+  discord: object({ ...CHANNEL_FIELDS, webhook_url: url('Webhook URLを入力してください') }),
+  line: object({
+    ...CHANNEL_FIELDS,
+    channel_access_token: string({ required: 'LINEのチャネルアクセストークンを入力してください' }),
+    to: string({ required: 'LINEの送信先を入力してください' }),
+  }),
+  ntfy: object({
+    ...CHANNEL_FIELDS,
+    server: optional(url()),
+    topic: string({ required: 'ntfyのトピックを入力してください' }),
+    token: optional(string()),
+  }),
+  webhook: object({
+    ...CHANNEL_FIELDS,
+    url: url('WebhookのURLを入力してください'),
+    headers: optional(record(string())),
+    include_screenshot: optional(boolean()),
+  }),
+});
+
+const AUTH_SCHEMA: Schema = object({
+  password: optional(string({ minLength: 8, message: 'ログインパスワードは8文字以上で入力してください' })),
+  tokens: optional(array(string({ minLength: 16, message: 'APIトークンは16文字以上で指定してください' }))),
+  session_hours: optional(number({ exclusiveMin: 0 })),
+  allowed_origins: optional(array(refine<string>(string(), (origin, path, issues) => {
+    if (!URL.canParse(origin) || new URL(origin).origin !== origin) {
+      issues.push({ path, message: 'オリジンは https://example.com の形式で指定してください' });
+    }
+  }))),
+});
+
+const RETENTION_RULE_SCHEMA: Schema = object({
+  max_age_days: optional(number({ exclusiveMin: 0 })),
+  max_count: optional(number({ integer: true, min: 1 })),
+});
 
-  if (config.interval_seconds < 60) {
-    throw new Error('監視間隔は60秒以上に設定してください');
+const PROFILE_SCHEMA: Schema = object({
+  name: string({ required: '検索プロファイルの名前を入力してください', pattern: /\S/ }),
+  enabled: boolean(),
+  kana_name: string({ required: '物件名（カナ）を入力してください' }),
+  kaiso_from: string({ required: '希望階層を入力してください', pattern: /^\d{1,2}$/, message: '希望階層は数字で入力してください（例: \'3\'）' }),
+  menseki_from: string({ oneOf: MENSEKI_LABELS, message: `床面積は ${MENSEKI_LABELS.join(', ')} のいずれかを指定してください` }),
+  madori: object({
+    madori_1R1K_1LDK: optional(boolean()),
+    madori_2K_2LDK: optional(boolean()),
+    madori_3K_3LDK: optional(boolean()),
+    madori_4K_up: optional(boolean()),
+  }),
+  recipients: optional(array(EMAIL_SCHEMA, { minLength: 1, message: '送信先メールアドレスを1つ以上入力してください' })),
+  interval_seconds: optional(number({ min: 60, message: '監視間隔は60秒以上に設定してください' })),
+  schedule: optional(SCHEDULE_SCHEMA),
+  subject: optional(string()),
+});
+
+/**
+ * 設定全体のスキーマ
+ */
+const CONFIG_SCHEMA: Schema = all(object({
+  config_version: optional(number({ integer: true, min: 1, max: CONFIG_VERSION })),
+  interval_seconds: number({ min: 60, message: '監視間隔は60秒以上に設定してください' }),
+  headless: optional(boolean()),
+  auto_shutdown: optional(boolean()),
+  watch_mode: optional(string({ oneOf: ['stop_on_found', 'notify_new'], message: '物件が見つかったときの動作の設定が不正です' })),
+  check_overlap: optional(string({ oneOf: ['skip', 'queue', 'coalesce'], message: 'チェックが重なったときの動作の設定が不正です' })),
+  channels: optional(all(
+    array(CHANNEL_SCHEMA),
+    (channels, path, issues) => {
+      // 通知の送信先・再送信はチャネルを名前（省略時は種類）で区別するため、同じ名前は使えない
+      const names = new Set<unknown>();
+      (Array.isArray(channels) ? channels as Partial<ChannelConfig>[] : []).forEach((channel, index) => {
+        const name = channel?.name ?? channel?.type;
+        if (typeof name === 'string' && names.has(name)) {
+          issues.push({
+            path: childPath(childPath(path, index), 'name'),
+            message: `通知チャネルの名前が重複しています: ${name}（同じ種類のチャネルを複数使う場合は name を付けてください）`,
+          });
+        }
+        names.add(name);
+      });
+    }
+  )),
+  outbox: optional(object({
+    max_attempts: optional(number({ integer: true, min: 1 })),
+    base_delay_seconds: optional(number({ min: 1 })),
+    max_delay_seconds: optional(number({ min: 1 })),
+  })),
+  browser: optional(object({
+    max_checks: optional(number({ integer: true, min: 1 })),
+    max_age_minutes: optional(number({ min: 1 })),
+  })),
+  circuit_breaker: optional(object({
+    failure_threshold: optional(number({ integer: true, min: 1 })),
+    max_backoff_seconds: optional(number({ min: 1 })),
+  })),
+  health: optional(object({
+    max_success_age_seconds: optional(number({ min: 1 })),
+  })),
+  auth: optional(AUTH_SCHEMA),
+  scraper: optional(object({
+    target_url: optional(url('検索ページのURLが不正です')),
+    record_dir: optional(string()),
+    replay_dir: optional(string()),
+    max_pages: optional(number({ integer: true, min: 1, message: '検索結果の最大ページ数は1以上の整数で設定してください' })),
+    fetch_details: optional(boolean()),
+    failure_artifacts: optional(boolean()),
+  })),
+  retention: optional(object({
+    hits: optional(RETENTION_RULE_SCHEMA),
+    no_hits: optional(RETENTION_RULE_SCHEMA),
+    errors: optional(RETENTION_RULE_SCHEMA),
+    max_artifact_mb: optional(number({ exclusiveMin: 0 })),
+    interval_minutes: optional(number({ exclusiveMin: 0 })),
+  })),
+  schedule: optional(SCHEDULE_SCHEMA),
+  searches: all(
+    array(PROFILE_SCHEMA, { minLength: 1, message: '検索プロファイルを1つ以上設定してください' }),
+    (profiles, path, issues) => {
+      const names = new Set<unknown>();
+      (Array.isArray(profiles) ? profiles as Partial<SearchProfile>[] : []).forEach((profile, index) => {
+        if (typeof profile?.name === 'string' && names.has(profile.name)) {
+          issues.push({ path: childPath(childPath(path, index), 'name'), message: `検索プロファイルの名前が重複しています: ${profile.name}` });
+        }
+        names.add(profile?.name);
+      });
+    }
+  ),
+}), (value, _path, issues) => {
+  // メールの通知チャネルを使う場合のみ SMTP 設定と送信先が必要
+  const config = (value ?? {}) as Partial<Config>;
+  const channels = Array.isArray(config.channels) ? config.channels : [{ type: 'email' } as ChannelConfig];
+  if (channels.some(channel => channel?.type === 'email' && channel.enabled !== false)) {
+    SMTP_SCHEMA(config.smtp, 'smtp', issues);
+    RECIPIENTS_SCHEMA(config.recipients, 'recipients', issues);
   }
+});
+
+/**
+ * 設定の妥当性チェック（不正な項目があれば全ての項目の問題を ConfigValidationError で投げる）
+ */
+export function validateConfig(config: Config): void {
+  validate(CONFIG_SCHEMA, config);
+}
+
+/**
+ * SMTP設定の妥当性チェック
+ */
+export function validateSmtp(smtp: SmtpConfig | undefined): void {
+  validate(SMTP_SCHEMA, smtp, 'smtp');
 }
 
 /**
@@ -97,4 +734,102 @@ export function validateConfig(config: Config): void {
  */
 export function configExists(): boolean {
   return existsSync(CONFIG_PATH);
-}
\ No newline at end of file
+}
+
+// 秘密の値を隠すときの表示（保存時にこの値のままなら、保存済みの値を引き継ぐ）
+export const SECRET_MASK = '********';
+
+// 通知チャネルの種類ごとの秘密の値の項目
+const CHANNEL_SECRET_FIELDS: Record<ChannelConfig['type'], string[]> = {
+  email: [],
+  slack: ['webhook_url'],
+  discord: ['webhook_url'],
+  line: ['channel_access_token'],
+  ntfy: ['token'],
+  webhook: ['url'], // URLにトークンを含むことが多いため
+};
+
+/**
+ * 設定の秘密の値（パスワード・トークン・Webhook URL など）を SECRET_MASK に置き換える
+ * API で設定を返すときに使う
+ */
+export function maskSecrets(config: Config): Config {
+  const masked: Config = structuredClone(config);
+  const mask = (fields: Record<string, unknown> | undefined, field: string): void => {
+    if (fields?.[field]) {
+      fields[field] = SECRET_MASK;
+    }
+  };
+
+  mask(masked.smtp as unknown as Record<string, unknown>, 'password');
+
+  for (const channel of masked.channels ?? []) {
+    for (const field of CHANNEL_SECRET_FIELDS[channel.type] ?? []) {
+      mask(channel as unknown as Record<string, unknown>, field);
+    }
+    if (channel.type === 'webhook') {
+      for (const header of Object.keys(channel.headers ?? {})) {
+        mask(channel.headers, header);
+      }
+    }
+  }
+
+  mask(masked.auth as Record<string, unknown> | undefined, 'password');
+  if (masked.auth?.tokens) {
+    masked.auth.tokens = masked.auth.tokens.map(() => SECRET_MASK);
+  }
+
+  return masked;
+}
+
+/**
+ * SECRET_MASK のままの項目を、保存済みの設定の値に戻す
+ * 保存済みの値がない場合はエラーにする
+ */
+export function restoreSecrets(config: Config, current: Config | undefined): Config {
+  const restored: Config = structuredClone(config);
+  const issues: SchemaIssue[] = [];
+  const restore = (fields: Record<string, unknown> | undefined, previous: Record<string, unknown> | undefined, field: string, path: string): void => {
+    if (fields?.[field] !== SECRET_MASK) {
+      return;
+    }
+    if (typeof previous?.[field] !== 'string' || !previous[field]) {
+      issues.push({ path, message: '保存済みの値がないため、入力し直してください' });
+      return;
+    }
+    fields[field] = previous[field];
+  };
+
+  restore(restored.smtp as unknown as Record<string, unknown>, current?.smtp as unknown as Record<string, unknown>, 'password', 'smtp.password');
+
+  (restored.channels ?? []).forEach((channel, index) => {
+    const name = channel.name ?? channel.type;
+    const path = childPath('channels', index);
+    // 同じ位置に同じ種類・名前のチャネルがあればそれを、なければ同じ種類・名前の最初のチャネルを使う
+    const sameChannel = (candidate: ChannelConfig | undefined) =>
+      candidate?.type === channel.type && (candidate.name ?? candidate.type) === name;
+    const previous = sameChannel(current?.channels?.[index])
+      ? current!.channels[index]
+      : current?.channels?.find(sameChannel);
+
+    for (const field of CHANNEL_SECRET_FIELDS[channel.type] ?? []) {
+      restore(channel as unknown as Record<string, unknown>, previous as unknown as Record<string, unknown>, field, childPath(path, field));
+    }
+    if (channel.type === 'webhook') {
+      const previousHeaders = previous?.type === 'webhook' ? previous.headers : undefined;
+      for (const header of Object.keys(channel.headers ?? {})) {
+        restore(channel.headers, previousHeaders, header, childPath(childPath(path, 'headers'), header));
+      }
+    }
+  });
+
+  restore(restored.auth as Record<string, unknown> | undefined, current?.auth as Record<string, unknown> | undefined, 'password', 'auth.password');
+  (restored.auth?.tokens ?? []).forEach((_token, index) => {
+    restore(restored.auth!.tokens as unknown as Record<string, unknown>, current?.auth?.tokens as unknown as Record<string, unknown>, String(index), childPath('auth.tokens', index));
+  });
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return restored;
+}
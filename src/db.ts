@@ -0,0 +1,123 @@
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+
+const DB_FILE = join(process.cwd(), 'logs', 'jkkwatcher.db');
+
+/**
+ * スキーマの変更履歴
+ * 適用済みのバージョンは PRAGMA user_version に記録し、未適用のものだけを順に実行する
+ * 既存の項目は変更せず、変更が必要な場合は末尾に追加する
+ */
+const MIGRATIONS: string[] = [
+  // 1: 実行履歴・見つかった物件・通知の送信結果
+  `
+  CREATE TABLE logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    profile TEXT,
+    message TEXT NOT NULL,
+    found INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    screenshot_path TEXT
+  );
+  CREATE INDEX logs_timestamp ON logs (timestamp);
+  CREATE INDEX logs_profile ON logs (profile, id);
+
+  CREATE TABLE log_listings (
+    log_id INTEGER NOT NULL REFERENCES logs (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    listing_id TEXT NOT NULL,
+    listing TEXT NOT NULL,
+    PRIMARY KEY (log_id, position)
+  );
+  CREATE INDEX log_listings_listing_id ON log_listings (listing_id);
+
+  CREATE TABLE log_notifications (
+    log_id INTEGER NOT NULL REFERENCES logs (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    channel TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    error TEXT,
+    PRIMARY KEY (log_id, position)
+  );
+
+  CREATE VIRTUAL TABLE logs_fts USING fts5 (message, content = 'logs', content_rowid = 'id', tokenize = 'trigram');
+  CREATE TRIGGER logs_fts_insert AFTER INSERT ON logs BEGIN
+    INSERT INTO logs_fts (rowid, message) VALUES (new.id, new.message);
+  END;
+  CREATE TRIGGER logs_fts_delete AFTER DELETE ON logs BEGIN
+    INSERT INTO logs_fts (logs_fts, rowid, message) VALUES ('delete', old.id, old.message);
+  END;
+  `,
+  // 2: スクレイピングの手順ごとの所要時間
+  `
+  CREATE TABLE log_steps (
+    log_id INTEGER NOT NULL REFERENCES logs (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    step TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    detail TEXT,
+    error TEXT,
+    PRIMARY KEY (log_id, position)
+  );
+  `,
+  // 3: エラーの時点で保存したトレース・HTML・スクリーンショット
+  `
+  CREATE TABLE log_artifacts (
+    log_id INTEGER NOT NULL REFERENCES logs (id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    path TEXT NOT NULL,
+    PRIMARY KEY (log_id, kind)
+  );
+  `,
+];
+
+let db: Database | null = null;
+
+/**
+ * データベースを開く（初回はスキーマを作成・更新する）
+ */
+export function getDatabase(): Database {
+  if (db) {
+    return db;
+  }
+
+  const dir = join(process.cwd(), 'logs');
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const database = new Database(DB_FILE, { create: true });
+  database.run('PRAGMA journal_mode = WAL');
+  database.run('PRAGMA foreign_keys = ON');
+  migrate(database);
+
+  db = database;
+  return db;
+}
+
+/**
+ * 未適用のマイグレーションを実行する
+ */
+function migrate(database: Database): void {
+  const { user_version: version } = database.query('PRAGMA user_version').get() as { user_version: number };
+
+  for (let index = version; index < MIGRATIONS.length; index++) {
+    database.transaction(() => {
+      database.run(MIGRATIONS[index] ?? '');
+      database.run(`PRAGMA user_version = ${index + 1}`);
+    })();
+    console.log(`データベースを更新しました（バージョン ${index + 1}）`);
+  }
+}
+
+/**
+ * データベースを閉じる
+ */
+export function closeDatabase(): void {
+  db?.close();
+  db = null;
+}
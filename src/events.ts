@@ -0,0 +1,15 @@
+// WebSocketブロードキャスト用のコールバック
+let broadcastCallback: ((message: any) => void) | null = null;
+
+export function setBroadcastCallback(callback: (message: any) => void): void {
+  broadcastCallback = callback;
+}
+
+/**
+ * WebSocketの全クライアントにイベントを送信する
+ */
+export function broadcast(message: any): void {
+  if (broadcastCallback) {
+    broadcastCallback(message);
+  }
+}
@@ -0,0 +1,397 @@
+import type { Listing, ScrapeStep, FailureArtifacts } from './scraper';
+import type { ChannelResult } from './notifier';
+import type { RetentionRule } from './config';
+import { getDatabase } from './db';
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { join } from 'path';
+
+export interface LogEntry {
+  id?: number; // 保存時に採番される
+  timestamp: string;
+  message: string;
+  found: boolean;
+  profile?: string;
+  error?: string; // エラーの内容（エラーの場合のみ）
+  listings?: Listing[];
+  notifications?: ChannelResult[]; // 通知チャネルごとの送信結果
+  steps?: ScrapeStep[]; // スクレイピングの手順ごとの所要時間
+  artifacts?: FailureArtifacts; // エラーの時点で保存したファイル
+  screenshotPath?: string;
+}
+
+/**
+ * 実行履歴の検索条件
+ */
+export interface LogQuery {
+  limit?: number; // 件数（既定: 20、最大: 500）
+  cursor?: number; // 前回の結果の next_cursor（これより古いログを取得）
+  from?: string; // この日時以降（ISO 8601）
+  to?: string; // この日時以前（ISO 8601）
+  found?: boolean;
+  error?: boolean;
+  profile?: string;
+  q?: string; // メッセージの全文検索
+}
+
+// 保持設定を分ける実行履歴の種類
+export type LogKind = 'hits' | 'no_hits' | 'errors';
+
+export interface LogPage {
+  logs: LogEntry[];
+  next_cursor: number | null; // 続きがない場合は null
+}
+
+interface LogRow {
+  id: number;
+  timestamp: string;
+  profile: string | null;
+  message: string;
+  found: number;
+  error: string | null;
+  screenshot_path: string | null;
+}
+
+// 以前の形式（JSON）の実行履歴。初回起動時にデータベースへ取り込む
+const LEGACY_LOG_FILE = join(process.cwd(), 'logs', 'history.json');
+
+// 実行履歴の種類ごとの条件
+const LOG_KIND_CONDITIONS: Record<LogKind, string> = {
+  hits: 'found = 1',
+  no_hits: 'found = 0 AND error IS NULL',
+  errors: 'found = 0 AND error IS NOT NULL',
+};
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 500;
+
+let legacyImported = false;
+
+/**
+ * データベースを開く（以前の形式の実行履歴があれば取り込む）
+ */
+function database() {
+  const db = getDatabase();
+  if (!legacyImported) {
+    legacyImported = true;
+    importLegacyHistory();
+  }
+  return db;
+}
+
+/**
+ * logs/history.json の実行履歴をデータベースに取り込み、history.json.imported に名前を変える
+ */
+function importLegacyHistory(): void {
+  if (!existsSync(LEGACY_LOG_FILE)) {
+    return;
+  }
+
+  try {
+    const logs: LogEntry[] = JSON.parse(readFileSync(LEGACY_LOG_FILE, 'utf8'));
+
+    // 古いものから順に取り込み、IDの順序と日時の順序を揃える
+    const sorted = [...logs].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    getDatabase().transaction(() => {
+      for (const entry of sorted) {
+        insertLog(entry);
+      }
+    })();
+
+    renameSync(LEGACY_LOG_FILE, `${LEGACY_LOG_FILE}.imported`);
+    console.log(`実行履歴を取り込みました（${logs.length}件）`);
+  } catch (error) {
+    console.error('実行履歴の取り込みに失敗:', error);
+  }
+}
+
+/**
+ * ログを1件保存してIDを返す
+ */
+function insertLog(entry: LogEntry): number {
+  const db = getDatabase();
+
+  const { id } = db.query(`
+    INSERT INTO logs (timestamp, profile, message, found, error, screenshot_path)
+    VALUES (?, ?, ?, ?, ?, ?)
+    RETURNING id
+  `).get(
+    entry.timestamp,
+    entry.profile ?? null,
+    entry.message,
+    entry.found ? 1 : 0,
+    entry.error ?? null,
+    entry.screenshotPath ?? null
+  ) as { id: number };
+
+  const insertListing = db.query('INSERT INTO log_listings (log_id, position, listing_id, listing) VALUES (?, ?, ?, ?)');
+  entry.listings?.forEach((listing, position) => {
+    insertListing.run(id, position, listing.id, JSON.stringify(listing));
+  });
+
+  const insertNotification = db.query('INSERT INTO log_notifications (log_id, position, channel, success, error) VALUES (?, ?, ?, ?, ?)');
+  entry.notifications?.forEach((result, position) => {
+    insertNotification.run(id, position, result.channel, result.success ? 1 : 0, result.error ?? null);
+  });
+
+  const insertStep = db.query('INSERT INTO log_steps (log_id, position, step, status, started_at, duration_ms, detail, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?)');
+  entry.steps?.forEach((step, position) => {
+    insertStep.run(id, position, step.step, step.status, step.started_at, step.duration_ms, step.detail ?? null, step.error ?? null);
+  });
+
+  const insertArtifact = db.query('INSERT INTO log_artifacts (log_id, kind, path) VALUES (?, ?, ?)');
+  for (const [kind, path] of Object.entries(entry.artifacts ?? {})) {
+    if (path) {
+      insertArtifact.run(id, kind, path);
+    }
+  }
+
+  return id;
+}
+
+/**
+ * ログエントリを追加
+ */
+export function addLog(entry: LogEntry): void {
+  try {
+    const db = database();
+    db.transaction(() => {
+      entry.id = insertLog(entry);
+    })();
+  } catch (error) {
+    console.error('ログの保存に失敗:', error);
+  }
+}
+
+/**
+ * 保持期間・件数を超えたログを削除し、種類ごとの削除件数と、削除後も参照されているファイルを返す
+ * dryRun が true の場合は削除した結果を確認してから元に戻す
+ */
+export function deleteExpiredLogs(
+  rules: Record<LogKind, RetentionRule>,
+  dryRun: boolean = false
+): { removed: Record<LogKind, number>; referencedFiles: Set<string> } {
+  const db = database();
+  const removed: Record<LogKind, number> = { hits: 0, no_hits: 0, errors: 0 };
+  let referencedFiles = new Set<string>();
+
+  try {
+    db.transaction(() => {
+      for (const [kind, rule] of Object.entries(rules) as [LogKind, RetentionRule][]) {
+        const kindCondition = LOG_KIND_CONDITIONS[kind];
+        const expired: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (rule.max_age_days !== undefined) {
+          expired.push('timestamp < ?');
+          params.push(new Date(Date.now() - rule.max_age_days * 24 * 60 * 60 * 1000).toISOString());
+        }
+        if (rule.max_count !== undefined) {
+          expired.push(`id NOT IN (SELECT id FROM logs WHERE ${kindCondition} ORDER BY id DESC LIMIT ?)`);
+          params.push(rule.max_count);
+        }
+        if (expired.length === 0) {
+          continue;
+        }
+
+        // 削除件数は changes では関連テーブル・全文検索の索引の変更も含まれるため、先に数える
+        const where = `WHERE ${kindCondition} AND (${expired.join(' OR ')})`;
+        removed[kind] = (db.query(`SELECT COUNT(*) AS count FROM logs ${where}`).get(...params) as { count: number }).count;
+        db.query(`DELETE FROM logs ${where}`).run(...params);
+      }
+
+      referencedFiles = getReferencedFiles();
+
+      if (dryRun) {
+        throw new DryRunRollback();
+      }
+    })();
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      throw error;
+    }
+  }
+
+  return { removed, referencedFiles };
+}
+
+/**
+ * 削除したファイルへの参照をログから外す（スクリーンショット・間取り図・エラーの時点の記録）
+ */
+export function forgetFiles(paths: string[]): void {
+  if (paths.length === 0) {
+    return;
+  }
+
+  const db = database();
+  const files = new Set(paths);
+  db.transaction(() => {
+    const clearScreenshot = db.query('UPDATE logs SET screenshot_path = NULL WHERE screenshot_path = ?');
+    const deleteArtifact = db.query('DELETE FROM log_artifacts WHERE path = ?');
+    for (const path of files) {
+      clearScreenshot.run(path);
+      deleteArtifact.run(path);
+    }
+
+    const updateListing = db.query('UPDATE log_listings SET listing = ? WHERE log_id = ? AND position = ?');
+    const rows = db.query("SELECT log_id, position, listing FROM log_listings WHERE listing LIKE '%floor_plan_path%'")
+      .all() as { log_id: number; position: number; listing: string }[];
+    for (const row of rows) {
+      const listing = JSON.parse(row.listing) as Listing;
+      if (listing.detail?.floor_plan_path && files.has(listing.detail.floor_plan_path)) {
+        delete listing.detail.floor_plan_path;
+        updateListing.run(JSON.stringify(listing), row.log_id, row.position);
+      }
+    }
+  })();
+}
+
+// ドライランでトランザクションを元に戻すための例外
+class DryRunRollback extends Error {}
+
+/**
+ * ログから参照されているファイル（スクリーンショット・間取り図・エラーの時点の記録）のパスを取得する
+ */
+function getReferencedFiles(): Set<string> {
+  const db = getDatabase();
+  const files = new Set<string>();
+
+  for (const { screenshot_path } of db.query('SELECT screenshot_path FROM logs WHERE screenshot_path IS NOT NULL').all() as { screenshot_path: string }[]) {
+    files.add(screenshot_path);
+  }
+  for (const { listing } of db.query("SELECT listing FROM log_listings WHERE listing LIKE '%floor_plan_path%'").all() as { listing: string }[]) {
+    const path = (JSON.parse(listing) as Listing).detail?.floor_plan_path;
+    if (path) {
+      files.add(path);
+    }
+  }
+  for (const { path } of db.query('SELECT path FROM log_artifacts').all() as { path: string }[]) {
+    files.add(path);
+  }
+
+  return files;
+}
+
+/**
+ * 条件に合うログを新しい順に取得する
+ */
+export function queryLogs(query: LogQuery = {}): LogPage {
+  const db = database();
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.cursor !== undefined) {
+    conditions.push('logs.id < ?');
+    params.push(query.cursor);
+  }
+  if (query.from) {
+    conditions.push('logs.timestamp >= ?');
+    params.push(new Date(query.from).toISOString());
+  }
+  if (query.to) {
+    conditions.push('logs.timestamp <= ?');
+    params.push(new Date(query.to).toISOString());
+  }
+  if (query.found !== undefined) {
+    conditions.push('logs.found = ?');
+    params.push(query.found ? 1 : 0);
+  }
+  if (query.error !== undefined) {
+    conditions.push(query.error ? 'logs.error IS NOT NULL' : 'logs.error IS NULL');
+  }
+  if (query.profile) {
+    conditions.push('logs.profile = ?');
+    params.push(query.profile);
+  }
+  if (query.q) {
+    // 全文検索の索引は3文字単位のため、2文字以下は部分一致で検索する
+    if ([...query.q].length >= 3) {
+      conditions.push('logs.id IN (SELECT rowid FROM logs_fts WHERE logs_fts MATCH ?)');
+      params.push(`"${query.q.replace(/"/g, '""')}"`);
+    } else {
+      conditions.push("logs.message LIKE ? ESCAPE '\\'");
+      params.push(`%${query.q.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+    }
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db.query(`SELECT * FROM logs ${where} ORDER BY logs.id DESC LIMIT ?`)
+    .all(...params, limit + 1) as LogRow[];
+
+  const hasMore = rows.length > limit;
+  const logs = rows.slice(0, limit).map(toLogEntry);
+
+  return {
+    logs,
+    next_cursor: hasMore ? logs[logs.length - 1]?.id ?? null : null,
+  };
+}
+
+/**
+ * ログ履歴を取得
+ */
+export function getLogs(limit: number = 20): LogEntry[] {
+  try {
+    return queryLogs({ limit }).logs;
+  } catch (error) {
+    console.error('ログの読み込みに失敗:', error);
+    return [];
+  }
+}
+
+/**
+ * データベースの行をログエントリに戻す
+ */
+function toLogEntry(row: LogRow): LogEntry {
+  const db = getDatabase();
+
+  const listings = (db.query('SELECT listing FROM log_listings WHERE log_id = ? ORDER BY position')
+    .all(row.id) as { listing: string }[])
+    .map(({ listing }) => JSON.parse(listing) as Listing);
+  const notifications = (db.query('SELECT channel, success, error FROM log_notifications WHERE log_id = ? ORDER BY position')
+    .all(row.id) as { channel: string; success: number; error: string | null }[])
+    .map(result => ({
+      channel: result.channel,
+      success: result.success === 1,
+      ...(result.error !== null ? { error: result.error } : {}),
+    }));
+  const steps = (db.query('SELECT step, status, started_at, duration_ms, detail, error FROM log_steps WHERE log_id = ? ORDER BY position')
+    .all(row.id) as (Omit<ScrapeStep, 'detail' | 'error'> & { detail: string | null; error: string | null })[])
+    .map(({ detail, error, ...step }) => ({
+      ...step,
+      ...(detail !== null ? { detail } : {}),
+      ...(error !== null ? { error } : {}),
+    }));
+  const artifacts = Object.fromEntries(
+    (db.query('SELECT kind, path FROM log_artifacts WHERE log_id = ?').all(row.id) as { kind: string; path: string }[])
+      .map(({ kind, path }) => [kind, path])
+  ) as FailureArtifacts;
+
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    message: row.message,
+    found: row.found === 1,
+    ...(row.profile !== null ? { profile: row.profile } : {}),
+    ...(row.error !== null ? { error: row.error } : {}),
+    ...(listings.length > 0 ? { listings } : {}),
+    ...(notifications.length > 0 ? { notifications } : {}),
+    ...(steps.length > 0 ? { steps } : {}),
+    ...(Object.keys(artifacts).length > 0 ? { artifacts } : {}),
+    ...(row.screenshot_path !== null ? { screenshotPath: row.screenshot_path } : {}),
+  };
+}
+
+/**
+ * ログ履歴をクリア
+ */
+export function clearLogs(): void {
+  try {
+    database().run('DELETE FROM logs');
+    console.log('ログ履歴をクリアしました');
+  } catch (error) {
+    console.error('ログのクリアに失敗:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,223 @@
+import { loadConfig, type RetentionConfig, type RetentionRule } from './config';
+import { deleteExpiredLogs, forgetFiles, type LogKind } from './history';
+import { getOutbox } from './outbox';
+import { broadcast } from './events';
+import { readdirSync, statSync, unlinkSync, existsSync } from 'fs';
+import { join, basename } from 'path';
+
+/**
+ * 古いログ・ファイルの削除結果
+ */
+export interface JanitorReport {
+  timestamp: string;
+  dry_run: boolean; // true の場合は削除せずに対象を数えただけ
+  logs: Record<LogKind, number>; // 種類ごとの削除したログの件数
+  files: string[]; // 削除したファイル名
+  freed_bytes: number; // 削除したファイルの合計サイズ
+  artifact_bytes: number; // 削除後に残っているファイルの合計サイズ
+}
+
+const LOGS_DIR = join(process.cwd(), 'logs');
+
+// 削除対象にするファイル（検索結果・間取り図のスクリーンショット、想定外のページのHTML、エラーの時点のトレース・HTML・スクリーンショット）
+const ARTIFACT_PATTERN = /^(property|floorplan|site_changed|failure)_.+\.(png|html|zip)$/;
+
+// 作成直後のファイルは、チェック中・通知中の可能性があるため削除しない
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+const DEFAULT_RULES: Record<LogKind, RetentionRule> = {
+  hits: {},
+  no_hits: { max_age_days: 1 },
+  errors: { max_age_days: 1 },
+};
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let janitorInterval: NodeJS.Timeout | null = null;
+let lastReport: JanitorReport | null = null;
+
+/**
+ * 保持設定を取得（未設定の項目は既定値）
+ */
+function retentionConfig(): RetentionConfig {
+  try {
+    return loadConfig().retention ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 古いログと、どこからも参照されていないスクリーンショットなどのファイルを削除する
+ * 合計サイズが max_artifact_mb を超える場合は、再送信待ちの通知で使うもの・作成直後のもの以外を古い順に削除し、
+ * ログからの参照を外す（ログ自体は残す）
+ */
+export function runJanitor(dryRun: boolean = false): JanitorReport {
+  const retention = retentionConfig();
+  const rules: Record<LogKind, RetentionRule> = {
+    hits: retention.hits ?? DEFAULT_RULES.hits,
+    no_hits: retention.no_hits ?? DEFAULT_RULES.no_hits,
+    errors: retention.errors ?? DEFAULT_RULES.errors,
+  };
+
+  // 削除後のログから参照されていないファイルを削除対象にする
+  const { removed: logs, referencedFiles: referenced } = deleteExpiredLogs(rules, dryRun);
+  const inOutbox = outboxFiles();
+  const isReferenced = (path: string) =>
+    referenced.has(path) || inOutbox.has(path) || referenced.has(path.replace(/\.html$/, '.png'));
+
+  const now = Date.now();
+  const artifacts = listArtifacts();
+  const removed: typeof artifacts = [];
+  const remaining: typeof artifacts = [];
+
+  for (const artifact of artifacts) {
+    if (!isReferenced(artifact.path) && now - artifact.mtime > GRACE_PERIOD_MS) {
+      removed.push(artifact);
+    } else {
+      remaining.push(artifact);
+    }
+  }
+
+  let artifactBytes = remaining.reduce((total, artifact) => total + artifact.size, 0);
+  // ログから参照されているが、合計サイズの上限を超えたため削除するファイル
+  const overLimit: string[] = [];
+  if (retention.max_artifact_mb !== undefined) {
+    const maxBytes = retention.max_artifact_mb * 1024 * 1024;
+    // 古いものから順に、上限を下回るまで削除する
+    for (const artifact of [...remaining].sort((a, b) => a.mtime - b.mtime)) {
+      if (artifactBytes <= maxBytes) {
+        break;
+      }
+      if (inOutbox.has(artifact.path) || now - artifact.mtime <= GRACE_PERIOD_MS) {
+        continue;
+      }
+      removed.push(artifact);
+      overLimit.push(artifact.path);
+      artifactBytes -= artifact.size;
+    }
+  }
+
+  if (!dryRun) {
+    for (const artifact of removed) {
+      try {
+        unlinkSync(artifact.path);
+      } catch (error) {
+        console.error(`ファイルの削除に失敗: ${artifact.path}`, error);
+      }
+    }
+    // 削除したファイルへのリンクがログに残らないようにする
+    forgetFiles(overLimit.filter(path => !existsSync(path)));
+  }
+
+  const report: JanitorReport = {
+    timestamp: new Date().toISOString(),
+    dry_run: dryRun,
+    logs,
+    files: removed.map(artifact => basename(artifact.path)),
+    freed_bytes: removed.reduce((total, artifact) => total + artifact.size, 0),
+    artifact_bytes: artifactBytes,
+  };
+
+  const removedLogs = logs.hits + logs.no_hits + logs.errors;
+  if (!dryRun) {
+    lastReport = report;
+    if (removedLogs > 0 || removed.length > 0) {
+      console.log(`古いログ${removedLogs}件・ファイル${removed.length}件（${formatBytes(report.freed_bytes)}）を削除しました`);
+      broadcast({
+        type: 'janitor_report',
+        data: report,
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * logs/ 内の削除対象のファイルを一覧する
+ */
+function listArtifacts(): { path: string; size: number; mtime: number }[] {
+  if (!existsSync(LOGS_DIR)) {
+    return [];
+  }
+
+  return readdirSync(LOGS_DIR)
+    .filter(name => ARTIFACT_PATTERN.test(name))
+    .flatMap(name => {
+      const path = join(LOGS_DIR, name);
+      try {
+        const stat = statSync(path);
+        return stat.isFile() ? [{ path, size: stat.size, mtime: stat.mtimeMs }] : [];
+      } catch {
+        return [];
+      }
+    });
+}
+
+/**
+ * 再送信待ちの通知で使うファイルのパスを集める
+ */
+function outboxFiles(): Set<string> {
+  const files = new Set<string>();
+
+  for (const { message } of getOutbox().items) {
+    for (const path of [
+      message.screenshotPath,
+      ...(message.extraScreenshotPaths ?? []),
+      ...(message.listings ?? []).map(listing => listing.detail?.floor_plan_path),
+    ]) {
+      if (path) {
+        files.add(path);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * バイト数を読みやすい単位にする
+ */
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)}MB`
+    : `${Math.round(bytes / 1024)}KB`;
+}
+
+/**
+ * 古いログ・ファイルの定期削除を開始する（起動時にも1回実行する）
+ */
+export function startJanitor(): void {
+  if (janitorInterval) {
+    return;
+  }
+
+  const run = () => {
+    try {
+      runJanitor();
+    } catch (error) {
+      console.error('古いログ・ファイルの削除中にエラーが発生しました:', error);
+    }
+  };
+
+  run();
+  const intervalMinutes = retentionConfig().interval_minutes ?? DEFAULT_INTERVAL_MINUTES;
+  janitorInterval = setInterval(run, intervalMinutes * 60 * 1000);
+}
+
+/**
+ * 古いログ・ファイルの定期削除を停止する
+ */
+export function stopJanitor(): void {
+  if (janitorInterval) {
+    clearInterval(janitorInterval);
+    janitorInterval = null;
+  }
+}
+
+/**
+ * 最後に実行した削除結果を取得
+ */
+export function getLastJanitorReport(): JanitorReport | null {
+  return lastReport;
+}
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { broadcast } from './events';
+import type { CheckResult } from './watcher';
+
+/**
+ * チェックのジョブ
+ *
+ * 定期チェック・手動チェック・保存前の設定でのチェック（プレビュー）はどれもジョブとして実行し、IDで状態と結果を取得できる。
+ * チェック中の WebSocket のイベント（progress・log_added など）には jobId を付けて送信する。
+ */
+
+// scheduled: 定期チェック / manual: 手動チェック / preview: 保存前の設定でのチェック
+export type JobKind = 'scheduled' | 'manual' | 'preview';
+
+// queued: 他のチェックの終了待ち / skipped: 他のチェックの実行中のため実行しなかった（check_overlap: skip）
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  profile?: string; // 対象の検索プロファイル（省略時は有効な全プロファイル）
+  state: JobState;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  coalesced_into?: string; // 同じチェックとまとめられた場合の、実際に実行したジョブのID（チェック中のイベントはそのIDで送信される）
+  found?: boolean; // いずれかのプロファイルで物件が見つかったか
+  results?: CheckResult[]; // プロファイルごとの結果
+  error?: string;
+}
+
+// 終了したジョブを残しておく件数（古いものから削除）
+const MAX_FINISHED_JOBS = 100;
+
+// ジョブID → ジョブ（作成順）
+const jobs = new Map<string, Job>();
+
+/**
+ * ジョブを作成する（まだ実行しない）
+ */
+export function createJob(kind: JobKind, profile?: string): Job {
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    profile,
+    state: 'queued',
+    created_at: new Date().toISOString(),
+  };
+  jobs.set(job.id, job);
+  pruneJobs();
+  broadcastJob(job);
+  return job;
+}
+
+/**
+ * ジョブのチェックが始まったことを記録する（複数のプロファイルをチェックする場合は最初の1回だけ）
+ * coalescedInto は、他のジョブのチェックにまとめられた場合のそのジョブのID
+ */
+export function markJobRunning(id: string | undefined, coalescedInto?: string): void {
+  const job = id ? jobs.get(id) : undefined;
+  if (!job || job.state !== 'queued') {
+    return;
+  }
+  if (coalescedInto && coalescedInto !== id) {
+    job.coalesced_into = coalescedInto;
+  }
+  job.state = 'running';
+  job.started_at = new Date().toISOString();
+  broadcastJob(job);
+}
+
+/**
+ * ジョブを実行し、結果を記録する
+ * run はプロファイルごとの結果を返す（1件もなければ実行しなかったとみなす）
+ */
+export async function runJob(job: Job, run: (job: Job) => Promise<CheckResult[]>): Promise<Job> {
+  try {
+    const results = await run(job);
+    job.results = results;
+    job.found = results.some(result => result.outcome === 'found');
+    job.state = results.length === 0
+      ? 'skipped'
+      : results.some(result => result.outcome === 'cancelled') ? 'cancelled' : 'completed';
+  } catch (error) {
+    job.state = 'failed';
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+  job.finished_at = new Date().toISOString();
+  broadcastJob(job);
+  return job;
+}
+
+/**
+ * ジョブを取得する
+ */
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * ジョブの一覧（新しい順）
+ */
+export function listJobs(limit: number = 20): Job[] {
+  return [...jobs.values()].reverse().slice(0, limit);
+}
+
+/**
+ * 終了したジョブが多すぎる場合は古いものから削除する
+ */
+function pruneJobs(): void {
+  const finished = [...jobs.values()].filter(job => job.finished_at);
+  for (const job of finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0))) {
+    jobs.delete(job.id);
+  }
+}
+
+/**
+ * ジョブの状態の変化を通知する
+ */
+function broadcastJob(job: Job): void {
+  broadcast({
+    type: 'job_update',
+    jobId: job.id,
+    data: job,
+  });
+}
@@ -0,0 +1,149 @@
+import type { WatcherStatus } from './watcher';
+
+// チェックの結果（found: 物件あり / not_found: 該当なし / site_changed: ページ構成の変更 / error: 失敗 / cancelled: 中止）
+export type CheckOutcome = 'found' | 'not_found' | 'site_changed' | 'error' | 'cancelled';
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  labels: Labels;
+  counts: number[]; // バケットごとの件数（累積ではない）
+  sum: number;
+  count: number;
+}
+
+// ヒストグラムのバケット（秒）
+const CHECK_DURATION_BUCKETS = [1, 2, 5, 10, 20, 30, 60, 120, 300];
+const BROWSER_LAUNCH_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30];
+const SCRAPE_STEP_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 30];
+
+// ラベルの組み合わせ → 値
+const checkCounts = new Map<string, { labels: Labels; value: number }>();
+const checkDurations = new Map<string, Histogram>();
+const browserLaunches = new Map<string, Histogram>();
+const scrapeSteps = new Map<string, Histogram>();
+const notificationCounts = new Map<string, { labels: Labels; value: number }>();
+const hitCounts = new Map<string, { labels: Labels; value: number }>();
+
+/**
+ * ラベルを Prometheus の表記にする（例: {profile="a",outcome="found"}）
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * カウンターを増やす
+ */
+function increment(counters: Map<string, { labels: Labels; value: number }>, labels: Labels, amount: number = 1): void {
+  const key = formatLabels(labels);
+  const counter = counters.get(key) ?? { labels, value: 0 };
+  counter.value += amount;
+  counters.set(key, counter);
+}
+
+/**
+ * ヒストグラムに値を追加する
+ */
+function observe(histograms: Map<string, Histogram>, buckets: number[], labels: Labels, value: number): void {
+  const key = formatLabels(labels);
+  const histogram = histograms.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+  const index = buckets.findIndex(bucket => value <= bucket);
+  if (index >= 0) {
+    histogram.counts[index]!++;
+  }
+  histogram.sum += value;
+  histogram.count++;
+  histograms.set(key, histogram);
+}
+
+/**
+ * チェック1回分の結果と所要時間を記録する
+ */
+export function recordCheck(profile: string, outcome: CheckOutcome, durationSeconds: number, hits: number = 0): void {
+  increment(checkCounts, { profile, outcome });
+  observe(checkDurations, CHECK_DURATION_BUCKETS, { profile }, durationSeconds);
+  if (hits > 0) {
+    increment(hitCounts, { profile }, hits);
+  }
+}
+
+/**
+ * ブラウザの起動にかかった時間を記録する
+ */
+export function recordBrowserLaunch(durationSeconds: number): void {
+  observe(browserLaunches, BROWSER_LAUNCH_BUCKETS, {}, durationSeconds);
+}
+
+/**
+ * スクレイピングの手順1つ分の所要時間を記録する
+ */
+export function recordScrapeStep(step: string, status: string, durationSeconds: number): void {
+  observe(scrapeSteps, SCRAPE_STEP_BUCKETS, { step, status }, durationSeconds);
+}
+
+/**
+ * 通知チャネルへの送信結果を記録する
+ */
+export function recordNotification(channel: string, success: boolean): void {
+  increment(notificationCounts, { channel, result: success ? 'success' : 'failure' });
+}
+
+/**
+ * カウンターを出力する
+ */
+function renderCounter(lines: string[], name: string, help: string, counters: Map<string, { labels: Labels; value: number }>): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+  for (const counter of counters.values()) {
+    lines.push(`${name}${formatLabels(counter.labels)} ${counter.value}`);
+  }
+}
+
+/**
+ * ヒストグラムを出力する（バケットは累積の件数）
+ */
+function renderHistogram(lines: string[], name: string, help: string, buckets: number[], histograms: Map<string, Histogram>): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+  for (const histogram of histograms.values()) {
+    let cumulative = 0;
+    buckets.forEach((bucket, index) => {
+      cumulative += histogram.counts[index]!;
+      lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: String(bucket) })} ${cumulative}`);
+    });
+    lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+    lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+    lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+  }
+}
+
+/**
+ * ゲージを出力する
+ */
+function renderGauge(lines: string[], name: string, help: string, value: number): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`);
+}
+
+/**
+ * メトリクスを Prometheus のテキスト形式で出力する
+ */
+export function renderMetrics(status: WatcherStatus): string {
+  const lines: string[] = [];
+
+  renderCounter(lines, 'jkkwatcher_checks_total', 'Number of checks by outcome', checkCounts);
+  renderHistogram(lines, 'jkkwatcher_check_duration_seconds', 'Duration of checks', CHECK_DURATION_BUCKETS, checkDurations);
+  renderHistogram(lines, 'jkkwatcher_browser_launch_seconds', 'Time taken to launch the browser', BROWSER_LAUNCH_BUCKETS, browserLaunches);
+  renderHistogram(lines, 'jkkwatcher_scrape_step_duration_seconds', 'Duration of each scraper step', SCRAPE_STEP_BUCKETS, scrapeSteps);
+  renderCounter(lines, 'jkkwatcher_notifications_total', 'Number of notifications sent by channel and result', notificationCounts);
+  renderCounter(lines, 'jkkwatcher_hits_found_total', 'Number of listings found', hitCounts);
+
+  renderGauge(lines, 'jkkwatcher_last_success_timestamp_seconds', 'Unix time of the last successful check (0 if none)',
+    status.lastSuccessTime ? new Date(status.lastSuccessTime).getTime() / 1000 : 0);
+  renderGauge(lines, 'jkkwatcher_watcher_running', 'Whether the watcher is running', status.isRunning ? 1 : 0);
+  renderGauge(lines, 'jkkwatcher_failure_streak', 'Number of consecutive failed checks', status.failureStreak);
+  renderGauge(lines, 'jkkwatcher_circuit_open', 'Whether the watcher has been reported as unhealthy', status.circuitOpen ? 1 : 0);
+
+  return lines.join('\n') + '\n';
+}
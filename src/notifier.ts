@@ -1,45 +1,238 @@
-import nodemailer from 'nodemailer';
-import type { GmailConfig, RecipientsConfig } from './config';
-import { readFileSync } from 'fs';
+import type { Config, ChannelConfig, RecipientsConfig, SearchProfile } from './config';
+import type { Listing } from './scraper';
+import { validateSmtp } from './config';
+import { sendEmail, createSmtpTransport } from './channels/email';
+import { sendSlack } from './channels/slack';
+import { sendDiscord } from './channels/discord';
+import { sendLine } from './channels/line';
+import { sendNtfy } from './channels/ntfy';
+import { sendWebhook } from './channels/webhook';
+import { formatListings } from './channels/format';
+import { recordNotification } from './metrics';
+import { loadTemplate, renderTemplate, renderListingsTable, SCREENSHOT_CID } from './templates';
+
+export const SEARCH_PAGE_URL = 'https://jhomes.to-kousya.or.jp/search/jkknet/service/akiyaJyoukenStartInit';
+
+// 件名の既定値（プロファイルの subject で上書き可能）
+export const DEFAULT_SUBJECT = '【JKK Watcher】空き物件が検索されました（{{profile}}・{{count}}件）';
 
 /**
- * メール通知を送信する
+ * 各通知チャネルに渡す通知内容
  */
-export async function sendNotification(
-  gmailConfig: GmailConfig,
-  recipientsConfig: RecipientsConfig,
-  screenshotPath: string
-): Promise<void> {
-  console.log('メール通知を送信しています...');
-
-  // Gmail SMTPトランスポーターを作成
-  const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: gmailConfig.user,
-      pass: gmailConfig.password,
-    },
-  });
-
-  // メール本文
-  const mailOptions = {
-    from: recipientsConfig.sender,
-    to: recipientsConfig.to.join(', '),
-    subject: '【JKK Watcher】空き物件が検索されました',
-    text: `空き物件が見つかりました！\n\n添付のスクリーンショットをご確認ください。\n\n詳細はこちら:\nhttps://jhomes.to-kousya.or.jp/search/jkknet/service/akiyaJyoukenStartInit`,
-    attachments: [
-      {
-        filename: 'property_screenshot.png',
-        content: readFileSync(screenshotPath),
-      },
-    ],
+export interface NotificationMessage {
+  title: string;
+  text: string; // プレーンテキストの本文
+  html?: string; // HTMLの本文（メールのみ使用）
+  profile?: string;
+  listings?: Listing[];
+  screenshotPath?: string;
+  extraScreenshotPaths?: string[]; // 検索結果の2ページ目以降のスクリーンショット（メールのみ添付）
+  recipients: RecipientsConfig; // メール通知の宛先
+}
+
+/**
+ * 通知チャネルごとの送信結果
+ */
+export interface ChannelResult {
+  channel: string;
+  success: boolean;
+  error?: string;
+}
+
+type ChannelSender<T extends ChannelConfig> = (
+  channel: T,
+  message: NotificationMessage,
+  config: Config
+) => Promise<void>;
+
+// チャネルの種類 → 送信処理
+const SENDERS: { [K in ChannelConfig['type']]: ChannelSender<Extract<ChannelConfig, { type: K }>> } = {
+  email: sendEmail,
+  slack: sendSlack,
+  discord: sendDiscord,
+  line: sendLine,
+  ntfy: sendNtfy,
+  webhook: sendWebhook,
+};
+
+/**
+ * 通知チャネルの表示名
+ */
+export function channelName(channel: ChannelConfig): string {
+  return channel.name ?? channel.type;
+}
+
+/**
+ * 空き物件が見つかったときの通知内容を作成する
+ * 本文は templates/found.txt・found.html、件名はプロファイルの subject から作成する
+ * 件名・本文では {{count}} {{building}} {{profile}} {{timestamp}} などを置き換える
+ */
+export function buildFoundMessage(
+  recipients: RecipientsConfig,
+  screenshotPath: string,
+  listings: Listing[] | undefined,
+  profile: SearchProfile,
+  extraScreenshotPaths: string[] = []
+): NotificationMessage {
+  const foundListings = listings ?? [];
+  const buildings = [...new Set(foundListings.map(listing => listing.name))];
+
+  const vars: Record<string, string> = {
+    count: String(foundListings.length),
+    building: buildings.length > 0 ? buildings.join('、') : profile.kana_name,
+    profile: profile.name,
+    timestamp: new Date().toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' }),
+    search_url: SEARCH_PAGE_URL,
+    listings_text: formatListings(foundListings),
+    listings_table_html: renderListingsTable(foundListings),
+    screenshot_html: `<img src="cid:${SCREENSHOT_CID}" alt="検索結果のスクリーンショット" style="max-width: 100%;">`,
+  };
+
+  return {
+    title: renderTemplate(profile.subject ?? DEFAULT_SUBJECT, vars),
+    text: renderTemplate(loadTemplate('found.txt'), vars),
+    html: renderTemplate(loadTemplate('found.html'), vars, true),
+    profile: profile.name,
+    listings,
+    screenshotPath,
+    extraScreenshotPaths,
+    recipients,
+  };
+}
+
+/**
+ * JKKねっとのページ構成が変わった可能性があるときの通知内容を作成する
+ * 空き物件の通知と区別できるよう、件名・本文ともに専用の文面にする
+ */
+export function buildSiteChangedMessage(
+  recipients: RecipientsConfig,
+  profile: SearchProfile,
+  error: string | undefined,
+  screenshotPath: string | undefined
+): NotificationMessage {
+  const timestamp = new Date().toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' });
+
+  return {
+    title: '【JKK Watcher】JKKねっとのページ構成が変わった可能性があります',
+    text: [
+      'JKKねっとで想定外のページが表示されたため、空き物件の有無を判定できませんでした。',
+      'ページ構成が変わった可能性があります。src/selectors.ts のセレクターを確認してください。',
+      '',
+      `検索プロファイル: ${profile.name}`,
+      `日時: ${timestamp}`,
+      `詳細: ${error ?? '不明'}`,
+      `検索ページ: ${SEARCH_PAGE_URL}`,
+      '',
+      'この通知はページ構成が元に戻るか、セレクターを更新するまで再送信されません。',
+    ].join('\n'),
+    profile: profile.name,
+    screenshotPath,
+    recipients,
   };
+}
+
+/**
+ * 監視の異常（チェックが続けて失敗している）・復旧を知らせる通知内容を作成する
+ */
+export function buildHealthMessage(
+  recipients: RecipientsConfig,
+  healthy: boolean,
+  failureStreak: number,
+  lastError: string | undefined
+): NotificationMessage {
+  const timestamp = new Date().toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' });
 
-  try {
-    await transporter.sendMail(mailOptions);
-    console.log('メール送信成功');
-  } catch (error) {
-    console.error('メール送信エラー:', error);
-    throw error;
+  if (healthy) {
+    return {
+      title: '【JKK Watcher】監視が復旧しました',
+      text: [
+        'チェックが再び成功するようになりました。通常の間隔で監視を続けます。',
+        '',
+        `日時: ${timestamp}`,
+      ].join('\n'),
+      recipients,
+    };
   }
-}
\ No newline at end of file
+
+  return {
+    title: `【JKK Watcher】監視に異常があります（${failureStreak}回連続で失敗）`,
+    text: [
+      `チェックが${failureStreak}回続けて失敗しています。JKKねっとが停止しているか、ネットワークやブラウザに問題がある可能性があります。`,
+      '失敗が続く間は監視間隔を延ばしてチェックを続け、成功したら改めて通知します。',
+      '',
+      `日時: ${timestamp}`,
+      `最後のエラー: ${lastError ?? '不明'}`,
+    ].join('\n'),
+    recipients,
+  };
+}
+
+/**
+ * SMTP設定を確認するためのテストメールを送信する
+ */
+export async function sendTestEmail(config: Config): Promise<void> {
+  validateSmtp(config.smtp);
+  if (!config.recipients?.sender || !config.recipients?.to?.length) {
+    throw new Error('メール送信先設定が不正です');
+  }
+
+  const transporter = createSmtpTransport(config.smtp);
+  await transporter.verify();
+  await sendEmail({ type: 'email' }, {
+    title: '【JKK Watcher】テストメール',
+    text: `JKK Watcher からのテストメールです。\n\nこのメールが届いていれば、SMTP設定（${config.smtp.host}:${config.smtp.port}）は正しく動作しています。`,
+    recipients: config.recipients,
+  }, config);
+  console.log('テストメール送信成功');
+}
+
+/**
+ * 通知チャネルの設定を確認するためのテスト通知を送信する
+ * channelNames を指定した場合はそのチャネルのみに送信する
+ */
+export async function sendTestNotification(config: Config, channelNames?: string[]): Promise<ChannelResult[]> {
+  return sendNotification(config, {
+    title: '【JKK Watcher】テスト通知',
+    text: `JKK Watcher からのテスト通知です。\n\nこの通知が届いていれば、通知チャネルの設定は正しく動作しています。\n\n日時: ${new Date().toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+    recipients: config.recipients,
+  }, channelNames);
+}
+
+/**
+ * 有効な全ての通知チャネルに通知を送信する
+ * 1つのチャネルが失敗しても他のチャネルには送信し、チャネルごとの結果を返す
+ * channelNames を指定した場合はそのチャネルのみに送信する（再送信用）
+ */
+export async function sendNotification(
+  config: Config,
+  message: NotificationMessage,
+  channelNames?: string[]
+): Promise<ChannelResult[]> {
+  const channels = config.channels.filter(channel =>
+    channel.enabled !== false && (!channelNames || channelNames.includes(channelName(channel)))
+  );
+  if (channels.length === 0) {
+    throw new Error('有効な通知チャネルがありません');
+  }
+
+  return Promise.all(channels.map(async (channel): Promise<ChannelResult> => {
+    const name = channelName(channel);
+    console.log(`[${name}] 通知を送信しています...`);
+
+    try {
+      const send = SENDERS[channel.type] as ChannelSender<ChannelConfig>;
+      await send(channel, message, config);
+      console.log(`[${name}] 通知送信成功`);
+      recordNotification(name, true);
+      return { channel: name, success: true };
+    } catch (error) {
+      console.error(`[${name}] 通知送信エラー:`, error);
+      recordNotification(name, false);
+      return {
+        channel: name,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }));
+}
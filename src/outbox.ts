@@ -0,0 +1,277 @@
+import { loadConfig, type OutboxConfig } from './config';
+import { sendNotification, type ChannelResult, type NotificationMessage } from './notifier';
+import { broadcast } from './events';
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+
+/**
+ * 送信に失敗し、再送信を待っている通知
+ */
+export interface OutboxItem {
+  id: string;
+  created_at: string;
+  message: NotificationMessage;
+  channels: string[]; // まだ送信できていない通知チャネル
+  attempts: number; // 送信を試みた回数（最初の送信を含む）
+  next_attempt_at: string;
+  last_error?: string;
+  status: 'pending' | 'failed'; // failed: 最大試行回数に達したもの
+}
+
+const OUTBOX_FILE = join(process.cwd(), 'logs', 'outbox.json');
+
+// 再送信キューを確認する間隔
+const PROCESS_INTERVAL_MS = 30 * 1000;
+
+const DEFAULT_OUTBOX_CONFIG: Required<OutboxConfig> = {
+  max_attempts: 8,
+  base_delay_seconds: 60,
+  max_delay_seconds: 60 * 60,
+};
+
+let outboxInterval: NodeJS.Timeout | null = null;
+let processing = false;
+
+/**
+ * 再送信キューを読み込む
+ */
+function loadOutbox(): OutboxItem[] {
+  try {
+    if (!existsSync(OUTBOX_FILE)) {
+      return [];
+    }
+    return JSON.parse(readFileSync(OUTBOX_FILE, 'utf8'));
+  } catch (error) {
+    console.error('再送信キューの読み込みに失敗:', error);
+    return [];
+  }
+}
+
+/**
+ * 再送信キューを保存し、状態をブロードキャストする
+ */
+function saveOutbox(items: OutboxItem[]): void {
+  try {
+    mkdirSync(dirname(OUTBOX_FILE), { recursive: true });
+    writeFileSync(OUTBOX_FILE, JSON.stringify(items, null, 2), 'utf8');
+  } catch (error) {
+    console.error('再送信キューの保存に失敗:', error);
+  }
+
+  broadcast({
+    type: 'outbox_update',
+    data: summarize(items),
+  });
+}
+
+/**
+ * 再送信キューの件数をまとめる
+ */
+function summarize(items: OutboxItem[]): { pending: number; failed: number } {
+  return {
+    pending: items.filter(item => item.status === 'pending').length,
+    failed: items.filter(item => item.status === 'failed').length,
+  };
+}
+
+/**
+ * 再送信設定を取得（未設定の項目は既定値）
+ */
+function outboxConfig(): Required<OutboxConfig> {
+  try {
+    return { ...DEFAULT_OUTBOX_CONFIG, ...loadConfig().outbox };
+  } catch {
+    return DEFAULT_OUTBOX_CONFIG;
+  }
+}
+
+/**
+ * 試行回数に応じた次の再送信までの待ち時間（指数バックオフ）
+ */
+function backoffSeconds(attempts: number, config: Required<OutboxConfig>): number {
+  return Math.min(config.base_delay_seconds * 2 ** (attempts - 1), config.max_delay_seconds);
+}
+
+/**
+ * 送信に失敗したチャネルの通知を再送信キューに追加する
+ */
+export function enqueueNotification(message: NotificationMessage, failedResults: ChannelResult[]): OutboxItem {
+  const config = outboxConfig();
+  const item: OutboxItem = {
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    message,
+    channels: failedResults.map(result => result.channel),
+    attempts: 1,
+    next_attempt_at: new Date(Date.now() + backoffSeconds(1, config) * 1000).toISOString(),
+    last_error: failedResults.map(result => `${result.channel}: ${result.error}`).join(' / '),
+    status: 'pending',
+  };
+
+  const items = loadOutbox();
+  items.push(item);
+  saveOutbox(items);
+  console.log(`再送信キューに追加しました (${item.channels.join(', ')})`);
+
+  return item;
+}
+
+/**
+ * 再送信の時刻になった通知を送信する
+ */
+export async function processOutbox(): Promise<void> {
+  if (processing) {
+    return;
+  }
+  processing = true;
+
+  try {
+    const now = Date.now();
+    const due = loadOutbox().filter(item =>
+      item.status === 'pending' && new Date(item.next_attempt_at).getTime() <= now
+    );
+
+    for (const dueItem of due) {
+      await deliver(dueItem);
+    }
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * 1件の通知を再送信し、結果をキューに反映する
+ */
+async function deliver(dueItem: OutboxItem): Promise<void> {
+  const config = loadConfig();
+  const settings = outboxConfig();
+
+  // 設定から削除されたチャネルは再送信しない
+  const configured = new Set(config.channels.map(channel => channel.name ?? channel.type));
+  const channels = dueItem.channels.filter(channel => configured.has(channel));
+
+  let results: ChannelResult[] = [];
+  if (channels.length > 0) {
+    console.log(`通知を再送信しています... (${channels.join(', ')}, ${dueItem.attempts + 1}回目)`);
+    try {
+      results = await sendNotification(config, dueItem.message, channels);
+    } catch (error) {
+      results = channels.map(channel => ({
+        channel,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+
+  const failed = results.filter(result => !result.success);
+  const sent = results.filter(result => result.success).map(result => result.channel);
+
+  // 送信中に他の処理がキューを更新している可能性があるため読み直して反映する
+  const items = loadOutbox();
+  const item = items.find(candidate => candidate.id === dueItem.id);
+  if (!item) {
+    return;
+  }
+
+  if (failed.length === 0) {
+    saveOutbox(items.filter(candidate => candidate.id !== item.id));
+    console.log(`通知の再送信に成功しました (${sent.join(', ') || 'チャネルなし'})`);
+    broadcast({
+      type: 'outbox_sent',
+      data: { id: item.id, profile: item.message.profile, channels: sent },
+    });
+    return;
+  }
+
+  item.channels = failed.map(result => result.channel);
+  item.attempts++;
+  item.last_error = failed.map(result => `${result.channel}: ${result.error}`).join(' / ');
+
+  if (item.attempts >= settings.max_attempts) {
+    item.status = 'failed';
+    console.error(`通知の再送信を${item.attempts}回試みましたが失敗しました: ${item.last_error}`);
+    broadcast({
+      type: 'outbox_failed',
+      data: item,
+    });
+    broadcast({
+      type: 'notification',
+      data: { type: 'error', message: `通知の再送信に失敗しました (${item.channels.join(', ')})`, profile: item.message.profile },
+    });
+  } else {
+    item.next_attempt_at = new Date(Date.now() + backoffSeconds(item.attempts, settings) * 1000).toISOString();
+    console.log(`通知の再送信に失敗しました。${item.next_attempt_at} に再試行します`);
+  }
+
+  saveOutbox(items);
+}
+
+/**
+ * 再送信キューの定期処理を開始する（未送信の通知は再起動後も引き継がれる）
+ */
+export function startOutbox(): void {
+  if (outboxInterval) {
+    return;
+  }
+
+  const summary = summarize(loadOutbox());
+  if (summary.pending > 0) {
+    console.log(`再送信待ちの通知が${summary.pending}件あります`);
+  }
+
+  outboxInterval = setInterval(() => {
+    processOutbox().catch(error => {
+      console.error('再送信キューの処理中にエラーが発生しました:', error);
+    });
+  }, PROCESS_INTERVAL_MS);
+}
+
+/**
+ * 再送信キューの定期処理を停止する
+ */
+export function stopOutbox(): void {
+  if (outboxInterval) {
+    clearInterval(outboxInterval);
+    outboxInterval = null;
+  }
+}
+
+/**
+ * 再送信キューの一覧を取得
+ */
+export function getOutbox(): { pending: number; failed: number; items: OutboxItem[] } {
+  const items = loadOutbox();
+  return { ...summarize(items), items };
+}
+
+/**
+ * 失敗した通知を再送信待ちに戻す
+ */
+export function retryOutboxItem(id: string): boolean {
+  const items = loadOutbox();
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) {
+    return false;
+  }
+
+  item.status = 'pending';
+  item.attempts = 0;
+  item.next_attempt_at = new Date().toISOString();
+  saveOutbox(items);
+  return true;
+}
+
+/**
+ * 再送信キューから通知を削除
+ */
+export function deleteOutboxItem(id: string): boolean {
+  const items = loadOutbox();
+  const remaining = items.filter(item => item.id !== id);
+  if (remaining.length === items.length) {
+    return false;
+  }
+
+  saveOutbox(remaining);
+  return true;
+}
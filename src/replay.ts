@@ -0,0 +1,131 @@
+import type { Page } from 'playwright';
+import type { Server } from 'bun';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, resolve, basename } from 'path';
+
+/**
+ * JKKねっとの代わりに保存済みのページを返すローカルサーバー
+ *
+ * フィクスチャのディレクトリには次のファイルを置く:
+ * - form.html: 検索条件の入力ページ（GETで返す。ディレクトリになければ fixtures/form.html）
+ * - results.html: 検索結果のページ（検索フォームの送信＝POSTで返す）
+ */
+
+export const FIXTURES_DIR = join(import.meta.dir, '..', 'fixtures');
+
+// 保存したページに含まれるJKKねっとのURLは代替サーバーのURLに置き換える
+const JKK_ORIGIN = 'https://jhomes.to-kousya.or.jp';
+
+let replayServer: Server<undefined> | null = null;
+let replayDir: string | null = null;
+
+/**
+ * フィクスチャのファイルを読み込む
+ */
+function readFixture(dir: string, name: string): string | null {
+  for (const path of [join(dir, name), join(FIXTURES_DIR, name)]) {
+    if (existsSync(path)) {
+      return readFileSync(path, 'utf8');
+    }
+  }
+  return null;
+}
+
+/**
+ * 代替サーバーを起動し、検索ページのURLを返す（同じディレクトリなら起動済みのものを使う）
+ */
+export function startReplayServer(fixtureDir: string): string {
+  const dir = resolve(fixtureDir);
+
+  if (replayServer && replayDir === dir) {
+    return replayServer.url.toString();
+  }
+  stopReplayServer();
+
+  if (!existsSync(join(dir, 'results.html'))) {
+    throw new Error(`フィクスチャが見つかりません: ${join(dir, 'results.html')}`);
+  }
+
+  replayServer = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      const url = new URL(req.url);
+      const origin = server.url.origin;
+
+      // 検索フォームの送信には検索結果を、それ以外は同名のファイルか検索条件の入力ページを返す
+      const name = req.method === 'POST'
+        ? 'results.html'
+        : existsSync(join(dir, basename(url.pathname))) && basename(url.pathname) !== ''
+          ? basename(url.pathname)
+          : 'form.html';
+
+      const content = readFixture(dir, name);
+      if (content === null) {
+        return new Response('Not Found', { status: 404 });
+      }
+
+      return new Response(content.replaceAll(JKK_ORIGIN, origin), {
+        headers: { 'Content-Type': name.endsWith('.html') ? 'text/html; charset=utf-8' : 'application/octet-stream' },
+      });
+    },
+  });
+  replayDir = dir;
+
+  console.log(`代替サーバーを起動しました: ${replayServer.url} (${dir})`);
+  return replayServer.url.toString();
+}
+
+/**
+ * 代替サーバーを停止する
+ */
+export function stopReplayServer(): void {
+  if (replayServer) {
+    replayServer.stop(true);
+    replayServer = null;
+    replayDir = null;
+  }
+}
+
+/**
+ * 表示中のページをフィクスチャとして保存する（記録モード）
+ */
+export async function saveFixture(page: Page, dir: string, name: string): Promise<void> {
+  try {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, name), await page.content(), 'utf8');
+    console.log(`ページを保存しました: ${join(dir, name)}`);
+  } catch (error) {
+    console.error('ページの保存に失敗:', error);
+  }
+}
+
+// bun run src/replay.ts <フィクスチャのディレクトリ> [--headed]
+// 代替サーバーに対して検索を1回実行し、結果を表示する
+if (import.meta.main) {
+  const { searchAvailableProperty } = await import('./scraper');
+  const { shutdownBrowser } = await import('./browser');
+
+  const fixtureDir = process.argv.slice(2).find(arg => !arg.startsWith('--')) ?? join(FIXTURES_DIR, 'results');
+  const headless = !process.argv.includes('--headed');
+
+  const result = await searchAvailableProperty(
+    {
+      kana_name: 'テスト',
+      kaiso_from: '1',
+      menseki_from: 'こだわらない',
+      madori: {
+        madori_1R1K_1LDK: true,
+        madori_2K_2LDK: true,
+        madori_3K_3LDK: true,
+        madori_4K_up: true,
+      },
+    },
+    headless,
+    { replay_dir: fixtureDir }
+  );
+  console.log(JSON.stringify(result, null, 2));
+
+  await shutdownBrowser(true);
+  stopReplayServer();
+  process.exit(result.success ? 0 : 1);
+}
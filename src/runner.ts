@@ -0,0 +1,193 @@
+import { loadConfig, type CheckOverlapPolicy } from './config';
+import { broadcast } from './events';
+
+/**
+ * チェックを1つずつ実行する
+ *
+ * 定期チェック・手動チェック・設定を指定したチェックはどれもここを通し、同時に複数のブラウザを動かさない。
+ * 実行中に次のチェックが要求された場合は check_overlap の設定に従う:
+ * - skip: 要求されたチェックを実行しない
+ * - queue: 実行中のチェックが終わってから順番に実行する
+ * - coalesce: 順番待ちに同じチェックがあればまとめて1回だけ実行する（既定）
+ *
+ * 順番待ちのチェックは、実行前に中止すると実行せずに順番待ちから外す
+ */
+
+interface CheckJob {
+  key: string; // 同じチェックかどうかの判定に使う（例: プロファイル名）
+  label: string; // ログ・画面に表示する名前
+  jobIds: string[]; // このチェックの結果を待っているジョブ（まとめられた場合は複数）
+  task: (signal: AbortSignal, jobIds: string[]) => Promise<unknown>;
+  controller: AbortController;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  startedAt?: string;
+}
+
+// チェックの実行状態（画面の表示・中止ボタンに使う）
+export interface CheckState {
+  running?: { label: string; startedAt: string };
+  queued: string[];
+}
+
+const DEFAULT_OVERLAP_POLICY: CheckOverlapPolicy = 'coalesce';
+
+/**
+ * 順番待ちのうちに中止されたチェックの待ち手に返すエラー
+ */
+export class CheckCancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} のチェックは実行前に中止されました`);
+    this.name = 'CheckCancelledError';
+  }
+}
+
+let runningJob: CheckJob | null = null;
+const queuedJobs: CheckJob[] = [];
+
+/**
+ * 重なったチェックの扱いを取得（設定を読めない場合は既定値）
+ */
+export function overlapPolicy(): CheckOverlapPolicy {
+  try {
+    return loadConfig().check_overlap ?? DEFAULT_OVERLAP_POLICY;
+  } catch {
+    return DEFAULT_OVERLAP_POLICY;
+  }
+}
+
+/**
+ * チェックを実行する（他のチェックの実行中は check_overlap の設定に従う）
+ * 実行しなかった場合（skip）は undefined を返す。まとめられた場合は先に待っていたチェックの結果を返す
+ * task には結果を待っている全てのジョブのID（先頭が最初に要求したジョブ）を渡す
+ * 実行前に中止された場合は CheckCancelledError で失敗する
+ */
+export function runExclusive<T>(
+  key: string,
+  label: string,
+  task: (signal: AbortSignal, jobIds: string[]) => Promise<T>,
+  jobId?: string
+): Promise<T | undefined> {
+  if (runningJob) {
+    const policy = overlapPolicy();
+    if (policy === 'skip') {
+      console.log(`[${label}] 他のチェック（${runningJob.label}）が実行中のため、スキップします`);
+      return Promise.resolve(undefined);
+    }
+    if (policy === 'coalesce') {
+      const waiting = queuedJobs.find(job => job.key === key);
+      if (waiting) {
+        console.log(`[${label}] 同じチェックが順番待ちのため、まとめて実行します`);
+        if (jobId) {
+          waiting.jobIds.push(jobId);
+        }
+        return waiting.promise as Promise<T>;
+      }
+    }
+  }
+
+  let resolve!: (value: unknown) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<unknown>((resolveJob, rejectJob) => {
+    resolve = resolveJob;
+    reject = rejectJob;
+  });
+  // 待ち手がまだ受け取っていない間に中止されても、未処理のエラーとして扱わない
+  promise.catch(() => {});
+  queuedJobs.push({
+    key,
+    label,
+    jobIds: jobId ? [jobId] : [],
+    task,
+    controller: new AbortController(),
+    promise,
+    resolve,
+    reject,
+  });
+
+  if (runningJob) {
+    console.log(`[${label}] 他のチェック（${runningJob.label}）が終わってから実行します`);
+    broadcastState();
+  } else {
+    runNext();
+  }
+  return promise as Promise<T>;
+}
+
+/**
+ * 順番待ちの次のチェックを実行する
+ */
+function runNext(): void {
+  const job = queuedJobs.shift();
+  runningJob = job ?? null;
+  if (!job) {
+    broadcastState();
+    return;
+  }
+
+  job.startedAt = new Date().toISOString();
+  broadcastState();
+
+  // 待っている呼び出し元に結果を返す前に次のチェックへ進む
+  job.task(job.controller.signal, job.jobIds)
+    .finally(runNext)
+    .then(job.resolve, job.reject);
+}
+
+/**
+ * チェックを中止する
+ * jobId を省略した場合は実行中のチェックを中止する（ブラウザのコンテキストを閉じて、途中の操作を打ち切る）
+ * jobId を指定した場合は、そのジョブが待っているチェックを中止する。順番待ちであれば実行せずに順番待ちから外す
+ * （まとめられたチェックは、待っている全てのジョブで中止になる）
+ * 中止したチェックの名前を返す。該当するチェックがなければ undefined
+ */
+export function cancelCheck(jobId?: string): string | undefined {
+  if (jobId) {
+    const index = queuedJobs.findIndex(job => job.jobIds.includes(jobId));
+    const queued = index >= 0 ? queuedJobs.splice(index, 1)[0] : undefined;
+    if (queued) {
+      console.log(`[${queued.label}] 順番待ちのチェックを中止します`);
+      queued.reject(new CheckCancelledError(queued.label));
+      broadcastState();
+      return queued.label;
+    }
+    if (!runningJob?.jobIds.includes(jobId)) {
+      return undefined;
+    }
+  }
+
+  if (!runningJob || runningJob.controller.signal.aborted) {
+    return undefined;
+  }
+  console.log(`[${runningJob.label}] チェックを中止します`);
+  runningJob.controller.abort();
+  return runningJob.label;
+}
+
+/**
+ * チェックを実行中か
+ */
+export function isCheckRunning(): boolean {
+  return runningJob !== null;
+}
+
+/**
+ * 現在のチェックの実行状態
+ */
+export function getCheckState(): CheckState {
+  return {
+    running: runningJob?.startedAt ? { label: runningJob.label, startedAt: runningJob.startedAt } : undefined,
+    queued: queuedJobs.map(job => job.label),
+  };
+}
+
+/**
+ * チェックの実行状態の変化を通知する
+ */
+function broadcastState(): void {
+  broadcast({
+    type: 'check_state',
+    data: getCheckState(),
+  });
+}
@@ -0,0 +1,315 @@
+import type { QuietHours, ScheduleConfig, ScheduleRule, Weekday } from './config';
+import { object, array, string, number, optional, refine, childPath, type Schema } from './schema';
+
+/**
+ * 監視スケジュールの計算
+ * 曜日・時間帯ごとの監視間隔、cron式、停止時間帯（quiet_hours）、ランダムな揺らぎ（jitter）から次回の実行時刻を決める
+ */
+
+const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTE_MS = 60 * 1000;
+// 停止時間帯の終わりを探す範囲（これを超えて停止し続ける設定は不正とみなす）
+const MAX_SEARCH_MINUTES = 8 * 24 * 60;
+
+// cron式の各項目の範囲（分 時 日 月 曜日）
+const CRON_FIELDS = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+] as const;
+const CRON_NAMES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // 日が * の場合
+  anyWeekday: boolean; // 曜日が * の場合
+}
+
+// タイムゾーンでの日時
+interface ZonedTime {
+  weekday: number; // 0: 日曜日
+  day: number;
+  month: number;
+  minuteOfDay: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 日時をタイムゾーンでの曜日・日付・時刻に変換する
+ */
+function toZoned(date: Date, timezone: string): ZonedTime {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    weekday: WEEKDAYS.indexOf((parts.weekday ?? '').toLowerCase() as Weekday),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * HH:MM を0時からの分数にする
+ */
+function parseTime(value: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    throw new Error(`時刻の形式が不正です（HH:MM）: ${value}`);
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > 24 * 60) {
+    throw new Error(`時刻の形式が不正です（HH:MM）: ${value}`);
+  }
+  return minutes;
+}
+
+/**
+ * 日時が曜日・時間帯に含まれるか（終了が開始より前の場合は翌日の終了時刻まで）
+ */
+function inWindow(time: ZonedTime, window: { days?: Weekday[]; start?: string; end?: string }): boolean {
+  const start = parseTime(window.start ?? '00:00');
+  const end = parseTime(window.end ?? '24:00');
+  const onDay = (weekday: number) => !window.days || window.days.includes(WEEKDAYS[weekday] as Weekday);
+
+  if (start < end) {
+    return onDay(time.weekday) && time.minuteOfDay >= start && time.minuteOfDay < end;
+  }
+  return (onDay(time.weekday) && time.minuteOfDay >= start)
+    || (onDay((time.weekday + 6) % 7) && time.minuteOfDay < end);
+}
+
+/**
+ * cron式（分 時 日 月 曜日）を解析する
+ */
+function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`cron式は「分 時 日 月 曜日」の5項目で指定してください: ${expression}`);
+  }
+
+  const sets = fields.map((field, index) => {
+    const { min, max } = CRON_FIELDS[index]!;
+    const values = new Set<number>();
+
+    for (const part of field.toLowerCase().split(',')) {
+      const match = part.match(/^(\*|[a-z0-9]+(?:-[a-z0-9]+)?)(?:\/(\d+))?$/);
+      if (!match) {
+        throw new Error(`cron式が不正です: ${expression}`);
+      }
+
+      const value = (name: string) => CRON_NAMES[name] ?? (/^\d+$/.test(name) ? Number(name) : NaN);
+      const [from, to] = match[1] === '*'
+        ? [min, max]
+        : match[1]!.includes('-')
+          ? match[1]!.split('-').map(value) as [number, number]
+          : [value(match[1]!), match[2] ? max : value(match[1]!)];
+      const step = match[2] ? Number(match[2]) : 1;
+
+      if (!(from >= min && to <= max && from <= to && step >= 1)) {
+        throw new Error(`cron式の値が範囲外です: ${expression}`);
+      }
+      for (let n = from; n <= to; n += step) {
+        values.add(index === 4 ? n % 7 : n);
+      }
+    }
+    return values;
+  });
+
+  return {
+    minutes: sets[0]!,
+    hours: sets[1]!,
+    days: sets[2]!,
+    months: sets[3]!,
+    weekdays: sets[4]!,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+/**
+ * 日時が cron式に一致するか（日と曜日の両方を指定した場合はどちらかに一致すればよい）
+ */
+function cronMatches(cron: CronSchedule, time: ZonedTime): boolean {
+  if (!cron.minutes.has(time.minuteOfDay % 60) || !cron.hours.has(Math.floor(time.minuteOfDay / 60)) || !cron.months.has(time.month)) {
+    return false;
+  }
+
+  const dayMatches = cron.days.has(time.day);
+  const weekdayMatches = cron.weekdays.has(time.weekday);
+  if (cron.anyDay || cron.anyWeekday) {
+    return dayMatches && weekdayMatches;
+  }
+  return dayMatches || weekdayMatches;
+}
+
+/**
+ * 停止時間帯に含まれるか
+ */
+export function isQuiet(date: Date, schedule: ScheduleConfig = {}): boolean {
+  const time = toZoned(date, schedule.timezone ?? DEFAULT_TIMEZONE);
+  return (schedule.quiet_hours ?? []).some(quiet => inWindow(time, quiet));
+}
+
+/**
+ * 時間帯のルールに従った、その日時の監視間隔（一致するルールがなければ defaultIntervalSeconds）
+ */
+export function intervalAt(date: Date, schedule: ScheduleConfig = {}, defaultIntervalSeconds: number): number {
+  const time = toZoned(date, schedule.timezone ?? DEFAULT_TIMEZONE);
+  return (schedule.rules ?? [])
+    .find(rule => rule.interval_seconds !== undefined && inWindow(time, rule))?.interval_seconds ?? defaultIntervalSeconds;
+}
+
+/**
+ * 停止時間帯に含まれる日時であれば、停止時間帯の終わりまで延ばす
+ */
+export function skipQuietHours(date: Date, schedule: ScheduleConfig = {}): Date {
+  if (!isQuiet(date, schedule)) {
+    return date;
+  }
+
+  let minute = Math.ceil(date.getTime() / MINUTE_MS);
+  const limit = minute + MAX_SEARCH_MINUTES;
+  while (isQuiet(new Date(minute * MINUTE_MS), schedule)) {
+    if (++minute > limit) {
+      throw new Error('停止時間帯が終わらないため、次回の実行時刻を決められません');
+    }
+  }
+  return new Date(minute * MINUTE_MS);
+}
+
+/**
+ * 次回の実行時刻を求める
+ * - 時間帯のルールに一致する間はそのルールの間隔、一致しない間は defaultIntervalSeconds で実行する
+ * - 次回までに別の時間帯のルールが始まる場合や cron式の時刻が来る場合は、その時刻に実行する
+ * - 停止時間帯に入る場合は停止時間帯の終わりまで延ばし、最後に jitter_seconds 以内のランダムな秒数を足す
+ */
+export function nextRunTime(from: Date, schedule: ScheduleConfig = {}, defaultIntervalSeconds: number): Date {
+  const timezone = schedule.timezone ?? DEFAULT_TIMEZONE;
+  const rules = schedule.rules ?? [];
+  const windows = rules.filter((rule): rule is ScheduleRule & { interval_seconds: number } => rule.interval_seconds !== undefined);
+  const crons = rules.filter(rule => rule.cron).map(rule => parseCron(rule.cron!));
+
+  let next = new Date(from.getTime() + intervalAt(from, schedule, defaultIntervalSeconds) * 1000);
+
+  // 次回までの各分を調べ、時間帯のルールの開始または cron式の時刻があればそこで実行する
+  let previous = toZoned(from, timezone);
+  for (let minute = Math.floor(from.getTime() / MINUTE_MS) + 1; minute * MINUTE_MS < next.getTime(); minute++) {
+    const date = new Date(minute * MINUTE_MS);
+    const time = toZoned(date, timezone);
+    const windowStarts = windows.some(window => inWindow(time, window) && !inWindow(previous, window));
+    if (windowStarts || crons.some(cron => cronMatches(cron, time))) {
+      next = date;
+      break;
+    }
+    previous = time;
+  }
+
+  // 停止時間帯であれば終わるまで延ばす
+  next = skipQuietHours(next, schedule);
+
+  const jitter = schedule.jitter_seconds ?? 0;
+  return new Date(next.getTime() + Math.random() * jitter * 1000);
+}
+
+/**
+ * 時刻（HH:MM）の項目
+ */
+const TIME_SCHEMA: Schema = refine<string>(string(), (value, path, issues) => {
+  try {
+    parseTime(value);
+  } catch (error) {
+    issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+const WINDOW_FIELDS = {
+  days: optional(array(string({ oneOf: WEEKDAYS, message: `曜日は ${WEEKDAYS.join(', ')} で指定してください` }))),
+  start: optional(TIME_SCHEMA),
+  end: optional(TIME_SCHEMA),
+};
+
+/**
+ * 停止時間帯が1週間の全ての時間を含むか（含む場合は次回の実行時刻を決められない）
+ */
+function coversWholeWeek(quietHours: QuietHours[]): boolean {
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let minuteOfDay = 0; minuteOfDay < 24 * 60; minuteOfDay++) {
+      const time = { weekday, day: 1, month: 1, minuteOfDay };
+      if (!quietHours.some(quiet => inWindow(time, quiet))) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * 停止時間帯のスキーマ（開始・終了の時刻は必須）
+ */
+const QUIET_HOURS_SCHEMA: Schema = refine<QuietHours[]>(
+  array(object({ ...WINDOW_FIELDS, start: TIME_SCHEMA, end: TIME_SCHEMA })),
+  (quietHours, path, issues) => {
+    if (coversWholeWeek(quietHours)) {
+      issues.push({ path, message: '停止時間帯が1週間の全ての時間を含んでいるため、監視できません' });
+    }
+  }
+);
+
+/**
+ * スケジュール設定のスキーマ
+ */
+export const SCHEDULE_SCHEMA: Schema = object({
+  timezone: optional(refine<string>(string(), (value, path, issues) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+    } catch {
+      issues.push({ path, message: `タイムゾーンが不正です: ${value}` });
+    }
+  })),
+  jitter_seconds: optional(number({ min: 0 })),
+  rules: optional(array(refine<ScheduleRule>(object({}), (rule, path, issues) => {
+    if ((rule.cron === undefined) === (rule.interval_seconds === undefined)) {
+      issues.push({ path, message: 'スケジュールのルールには cron か interval_seconds のどちらか一方を指定してください' });
+      return;
+    }
+    if (rule.cron !== undefined) {
+      refine<string>(string(), (cron, cronPath, cronIssues) => {
+        try {
+          parseCron(cron);
+        } catch (error) {
+          cronIssues.push({ path: cronPath, message: error instanceof Error ? error.message : String(error) });
+        }
+      })(rule.cron, childPath(path, 'cron'), issues);
+    } else {
+      object({
+        ...WINDOW_FIELDS,
+        interval_seconds: number({ min: 60, message: 'スケジュールの監視間隔は60秒以上に設定してください' }),
+      })(rule, path, issues);
+    }
+  }))),
+  quiet_hours: optional(QUIET_HOURS_SCHEMA),
+});
@@ -0,0 +1,195 @@
+/**
+ * 設定のスキーマ（値の型・範囲のチェック）
+ *
+ * スキーマは値を調べ、問題があれば項目のパス（例: searches[0].kaiso_from）とメッセージを issues に追加する。
+ * 最初の問題で止めずに全ての項目を調べるため、画面で該当する入力欄をまとめて示せる。
+ */
+
+export interface SchemaIssue {
+  path: string; // 項目のパス（例: smtp.port, searches[0].kaiso_from）
+  message: string;
+}
+
+export type Schema = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+/**
+ * 設定の内容が不正な場合のエラー（全ての項目の問題を持つ）
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: SchemaIssue[]) {
+    super(issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('\n'));
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * 値をスキーマで調べ、問題があれば ConfigValidationError を投げる
+ */
+export function validate(schema: Schema, value: unknown, path: string = ''): void {
+  const issues: SchemaIssue[] = [];
+  schema(value, path, issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
+
+/**
+ * 子の項目のパス
+ */
+export function childPath(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+/**
+ * 省略可能な項目（undefined の場合は調べない）
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined) {
+      schema(value, path, issues);
+    }
+  };
+}
+
+/**
+ * 文字列
+ * pattern・oneOf に合わない場合は message（省略時は既定のメッセージ）を追加する
+ */
+export function string(options: { required?: string; minLength?: number; pattern?: RegExp; oneOf?: readonly string[]; message?: string } = {}): Schema {
+  return (value, path, issues) => {
+    if (value === undefined || value === null || value === '') {
+      issues.push({ path, message: options.required ?? '入力してください' });
+      return;
+    }
+    if (typeof value !== 'string') {
+      issues.push({ path, message: '文字列で指定してください' });
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: options.message ?? `${options.minLength}文字以上で入力してください` });
+    } else if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: options.message ?? '形式が不正です' });
+    } else if (options.oneOf && !options.oneOf.includes(value)) {
+      issues.push({ path, message: options.message ?? `${options.oneOf.join(', ')} のいずれかを指定してください` });
+    }
+  };
+}
+
+/**
+ * 数値（integer: 整数のみ / min・max: 範囲 / exclusiveMin: この値より大きい）
+ */
+export function number(options: { integer?: boolean; min?: number; max?: number; exclusiveMin?: number; message?: string } = {}): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: '数値で指定してください' });
+      return;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: options.message ?? '整数で指定してください' });
+    } else if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: options.message ?? `${options.min}以上で指定してください` });
+    } else if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: options.message ?? `${options.max}以下で指定してください` });
+    } else if (options.exclusiveMin !== undefined && value <= options.exclusiveMin) {
+      issues.push({ path, message: options.message ?? `${options.exclusiveMin}より大きい値を指定してください` });
+    }
+  };
+}
+
+/**
+ * 真偽値
+ */
+export function boolean(): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: 'true または false で指定してください' });
+    }
+  };
+}
+
+/**
+ * 配列（要素をそれぞれ item で調べる）
+ */
+export function array(item: Schema, options: { minLength?: number; message?: string } = {}): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: options.message ?? '一覧（配列）で指定してください' });
+      return;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: options.message ?? `${options.minLength}件以上指定してください` });
+    }
+    value.forEach((element, index) => item(element, childPath(path, index), issues));
+  };
+}
+
+/**
+ * オブジェクト（項目ごとにスキーマで調べる。スキーマにない項目は調べない）
+ */
+export function object(fields: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: '項目と値の組で指定してください' });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(fields)) {
+      schema(record[key], childPath(path, key), issues);
+    }
+  };
+}
+
+/**
+ * 名前と値の組（値をそれぞれ item で調べる）
+ */
+export function record(item: Schema): Schema {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path, message: '名前と値の組で指定してください' });
+      return;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      item(element, childPath(path, key), issues);
+    }
+  };
+}
+
+/**
+ * type などの項目の値によってスキーマを切り替える
+ */
+export function discriminated(key: string, variants: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    const type = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    const schema = typeof type === 'string' && Object.hasOwn(variants, type) ? variants[type] : undefined;
+    if (!schema) {
+      issues.push({ path: childPath(path, key), message: `${Object.keys(variants).join(', ')} のいずれかを指定してください` });
+      return;
+    }
+    schema(value, path, issues);
+  };
+}
+
+/**
+ * 複数のスキーマで調べる（前のスキーマで問題があっても続けて調べる）
+ */
+export function all(...schemas: Schema[]): Schema {
+  return (value, path, issues) => {
+    for (const schema of schemas) {
+      schema(value, path, issues);
+    }
+  };
+}
+
+/**
+ * スキーマで調べた後に、項目をまたがる条件などを追加で調べる
+ * check は型のチェックを通った値に対してのみ呼ばれる
+ */
+export function refine<T>(schema: Schema, check: (value: T, path: string, issues: SchemaIssue[]) => void): Schema {
+  return (value, path, issues) => {
+    const count = issues.length;
+    schema(value, path, issues);
+    if (issues.length === count) {
+      check(value as T, path, issues);
+    }
+  };
+}
@@ -1,184 +1,814 @@
-import { chromium, Browser, Page } from 'playwright';
-import type { SearchConfig } from './config';
-import { join } from 'path';
+import type { BrowserContext, Page } from 'playwright';
+import { acquireContext, releaseContext } from './browser';
+import { recordScrapeStep } from './metrics';
+import { startReplayServer, saveFixture } from './replay';
+import { SELECTORS, type DetailField, type PageShape } from './selectors';
+import type { SearchConfig, ScraperConfig } from './config';
+import { join, basename } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 
+/**
+ * 検索結果の1物件分の情報
+ */
+export interface Listing {
+  id: string; // 物件ID（取得できない場合は住宅名・階・間取りなどから生成）
+  name: string; // 住宅名
+  area: string; // 区市町村
+  madori: string; // 間取り
+  floor_area: string; // 床面積
+  floor: string; // 階
+  rent: string; // 家賃
+  common_fee: string; // 共益費
+  link?: string; // 詳細ページへのリンク
+  detail?: ListingDetail; // 詳細ページから読み取った情報
+}
+
+/**
+ * 物件の詳細ページから読み取った情報
+ */
+export interface ListingDetail {
+  address?: string; // 所在地
+  rent_breakdown: Record<string, string>; // 家賃・共益費・敷金などの内訳（見出し → 金額）
+  application_deadline?: string; // 申込期限
+  notes?: string; // 備考・特記事項
+  floor_plan_path?: string; // 間取り図の画像（logs/ に保存）
+}
+
 export interface ScrapeResult {
   success: boolean;
   found: boolean;
   message: string;
-  screenshotPath?: string;
+  listings?: Listing[];
+  screenshotPath?: string; // 検索結果（1ページ目）のスクリーンショット
+  screenshotPaths?: string[]; // 検索結果の全ページのスクリーンショット
+  pageShape?: PageShape; // 検索結果ページの判別結果
   error?: string;
+  cancelled?: boolean; // 途中で中止された
+  steps?: ScrapeStep[]; // 手順ごとの所要時間（実行した順）
+  artifacts?: FailureArtifacts; // エラーの時点で保存したファイル（scraper.failure_artifacts が有効な場合のみ）
+}
+
+/**
+ * エラーで検索が止まった時点の記録（logs/ に保存したファイルのパス。保存できなかったものは省略）
+ */
+export interface FailureArtifacts {
+  trace?: string; // Playwright のトレース（npx playwright show-trace で開く）
+  html?: string; // 表示中のページのHTML
+  screenshot?: string; // 表示中のページのスクリーンショット
+}
+
+// スクレイピングの手順
+// browser: ブラウザの起動・コンテキストの作成 / page_load: 検索ページを開く / tab_switch: 新しいタブへの切り替え
+// fill_*・select_*・set_madori: 検索条件の入力 / search_click: 検索ボタンのクリック / results_detection: 検索結果ページの判別
+// screenshot: スクリーンショットの保存 / detail_page: 詳細ページの読み取り / next_page: 検索結果の次のページを開く
+export type ScrapeStepName =
+  | 'browser'
+  | 'page_load'
+  | 'tab_switch'
+  | 'fill_kana_name'
+  | 'fill_kaiso_from'
+  | 'select_menseki_from'
+  | 'set_madori'
+  | 'search_click'
+  | 'results_detection'
+  | 'screenshot'
+  | 'detail_page'
+  | 'next_page';
+
+/**
+ * スクレイピングの手順1つ分の結果
+ */
+export interface ScrapeStep {
+  step: ScrapeStepName;
+  status: 'ok' | 'error';
+  started_at: string;
+  duration_ms: number;
+  detail?: string; // 補足（例: 判別したページ・ページ番号・行番号）
+  error?: string;
+}
+
+/**
+ * 検索1回分の実行の指定
+ */
+export interface ScrapeRun {
+  signal?: AbortSignal; // 中止すると、ブラウザのコンテキストを閉じて途中の操作を打ち切る
+  onStep?: (step: ScrapeStep) => void; // 手順が終わるたびに呼ばれる（失敗した場合も含む）
+}
+
+// 手順の所要時間を計りながら実行する（detail は補足。結果から作る場合は関数で指定）
+type StepTimer = <T>(
+  step: ScrapeStepName,
+  action: () => Promise<T>,
+  detail?: string | ((value: T) => string | undefined)
+) => Promise<T>;
+
+type ListingField = Exclude<keyof Listing, 'id' | 'link' | 'detail'>;
+
+/**
+ * ページから読み取った内容（ページの判別と物件一覧の読み取りに使う）
+ */
+export interface PageContent {
+  url: string;
+  text: string; // 本文のテキスト
+  noResults: boolean; // 該当なしのメッセージがあるか
+  form: boolean; // 検索フォームの全ての項目があるか
+  rows: TableRow[]; // 検索結果テーブルの行（SELECTORS.results.rows に一致する順）
+}
+
+/**
+ * 表の1行分の内容
+ */
+export interface TableRow {
+  cells: string[]; // 直下のセル（th・td）のテキスト（空白を詰めたもの）
+  href: string | null; // 最初の詳細ボタン・リンクの属性（なければ null）
+  onclick: string | null;
+}
+
+// 検索結果テーブルの行から読み取った物件（row は行の位置。詳細ページを開くときに使う）
+export interface ExtractedListing {
+  listing: Listing;
+  row: number;
 }
 
 const LOGS_DIR = join(process.cwd(), 'logs');
 const TARGET_URL = 'https://jhomes.to-kousya.or.jp/search/jkknet/service/akiyaJyoukenStartInit';
+const DEFAULT_MAX_PAGES = 10;
+// 詳細ページが開くまでの待ち時間
+const DETAIL_TIMEOUT = 10000;
+
+// 検索結果テーブルの見出しと Listing のフィールドの対応
+const LISTING_COLUMNS: Record<ListingField, string[]> = {
+  name: ['住宅名'],
+  area: ['区市町村', '所在地', '地域'],
+  madori: ['間取り'],
+  floor_area: ['床面積', '面積'],
+  floor: ['階'],
+  rent: ['家賃'],
+  common_fee: ['共益費'],
+};
 
 /**
  * 都営住宅の空き物件を検索する
+ * options.replay_dir を指定すると保存済みのページに対して検索する
+ * 手順ごとの所要時間は結果の steps に入れ、run.onStep にも1つずつ渡す
  */
 export async function searchAvailableProperty(
   searchConfig: SearchConfig,
-  headless: boolean = true
+  headless: boolean = true,
+  options: ScraperConfig = {},
+  run: ScrapeRun = {}
+): Promise<ScrapeResult> {
+  const steps: ScrapeStep[] = [];
+  const timed = stepTimer(step => {
+    steps.push(step);
+    recordScrapeStep(step.step, step.status, step.duration_ms / 1000);
+    run.onStep?.(step);
+  });
+
+  const result = await search(searchConfig, headless, options, run.signal, timed);
+  return { ...result, steps };
+}
+
+/**
+ * 手順の所要時間を計る関数を作る
+ * 失敗した手順も記録してから、エラーをそのまま投げ直す
+ */
+function stepTimer(report: (step: ScrapeStep) => void): StepTimer {
+  return async (step, action, detail) => {
+    const startedAt = new Date();
+    const finish = (fields: Pick<ScrapeStep, 'status' | 'detail' | 'error'>) => {
+      report({
+        step,
+        started_at: startedAt.toISOString(),
+        duration_ms: Date.now() - startedAt.getTime(),
+        ...fields,
+      });
+    };
+
+    try {
+      const value = await action();
+      finish({ status: 'ok', detail: typeof detail === 'function' ? detail(value) : detail });
+      return value;
+    } catch (error) {
+      finish({
+        status: 'error',
+        detail: typeof detail === 'function' ? undefined : detail,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+}
+
+/**
+ * 検索ページを開いて条件を入力し、検索結果を読み取る
+ */
+async function search(
+  searchConfig: SearchConfig,
+  headless: boolean,
+  options: ScraperConfig,
+  signal: AbortSignal | undefined,
+  timed: StepTimer
 ): Promise<ScrapeResult> {
   // logsディレクトリを作成
   if (!existsSync(LOGS_DIR)) {
     mkdirSync(LOGS_DIR, { recursive: true });
   }
 
-  let browser: Browser | null = null;
-  let page: Page | null = null;
-
-  try {
-    console.log('ブラウザを起動しています...');
+  let context: BrowserContext | null = null;
+  // エラーの時点の記録を保存する（failure_artifacts が無効な場合・ブラウザを開く前は何もしない）
+  const captureFailure = async () => context && options.failure_artifacts ? saveFailureArtifacts(context) : undefined;
 
-    browser = await chromium.launch({
-      headless: headless,
-      timeout: 30000,
+  // 中止した場合は、コンテキストを閉じる前にその時点の記録を保存する
+  let abortArtifacts: Promise<FailureArtifacts | undefined> | undefined;
+  const abort = () => {
+    if (!context) {
+      return;
+    }
+    abortArtifacts ??= captureFailure().finally(() => {
+      context?.close().catch(() => {});
     });
+  };
+  signal?.addEventListener('abort', abort);
 
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-    });
+  try {
+    signal?.throwIfAborted();
+
+    const targetUrl = options.replay_dir
+      ? startReplayServer(options.replay_dir)
+      : options.target_url ?? TARGET_URL;
+    // 再生中は保存し直さない
+    const recordDir = options.replay_dir ? undefined : options.record_dir;
+
+    // 起動済みのブラウザを使い回し、チェックごとに新しいコンテキストを開く
+    context = await timed('browser', () => acquireContext(headless));
+    if (signal?.aborted) {
+      abort();
+    }
+    if (options.failure_artifacts) {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+    }
 
-    page = await context.newPage();
+    const browserContext = context;
+    let page = await browserContext.newPage();
     page.setDefaultTimeout(30000);
 
     console.log('検索ページにアクセスしています...');
-    await page.goto(TARGET_URL, { waitUntil: 'domcontentloaded' });
+    await timed('page_load', () => page.goto(targetUrl, { waitUntil: 'domcontentloaded' }), targetUrl);
+
+    page = await timed('tab_switch', async () => {
+      // 新しいタブが開くのを待つ
+      await page.waitForTimeout(2000);
+
+      const pages = browserContext.pages();
+      const opened = pages.length > 1 ? pages[pages.length - 1] ?? page : page;
 
-    // 新しいタブが開くのを待つ
-    await page.waitForTimeout(2000);
+      // ページがロードされるまで待つ
+      await opened.waitForLoadState('domcontentloaded');
+      return opened;
+    }, opened => opened === page ? '同じタブ' : '新しいタブ');
 
-    const pages = context.pages();
-    if (pages.length > 1) {
-      page = pages[pages.length - 1];
+    if (recordDir) {
+      await saveFixture(page, recordDir, 'form.html');
     }
 
-    // ページがロードされるまで待つ
-    await page.waitForLoadState('domcontentloaded');
+    // 検索条件の入力ページが表示されていることを確認する
+    await page.waitForSelector(SELECTORS.form.kanaName, { timeout: 10000 }).catch(() => {});
+    const formShape = classifyPage(await readPageContent(page));
+    if (formShape !== 'form') {
+      return await unexpectedPage(page, formShape, timed, captureFailure);
+    }
 
     console.log('検索条件を入力しています...');
 
     // 物件名（カナ）を入力
-    const propertyInput = await page.waitForSelector('input[name="akiyaInitRM.akiyaRefM.jyutakuKanaName"]');
-    await propertyInput.fill(searchConfig.kana_name);
+    await timed('fill_kana_name', async () => {
+      const propertyInput = await page.waitForSelector(SELECTORS.form.kanaName);
+      await propertyInput.fill(searchConfig.kana_name);
+    });
 
     // 階層を入力
-    const kaisoInput = await page.waitForSelector('input[name="akiyaInitRM.akiyaRefM.kaisoFrom"]');
-    await kaisoInput.fill(searchConfig.kaiso_from);
+    await timed('fill_kaiso_from', async () => {
+      const kaisoInput = await page.waitForSelector(SELECTORS.form.kaisoFrom);
+      await kaisoInput.fill(searchConfig.kaiso_from);
+    });
 
     // 床面積を選択
-    const mensekiSelect = await page.waitForSelector('select[name="akiyaInitRM.akiyaRefM.mensekiFrom"]');
-    await mensekiSelect.selectOption({ label: searchConfig.menseki_from });
+    await timed('select_menseki_from', async () => {
+      const mensekiSelect = await page.waitForSelector(SELECTORS.form.mensekiFrom);
+      await mensekiSelect.selectOption({ label: searchConfig.menseki_from });
+    });
 
     // 間取りのチェックボックスを設定
-    const madoriCheckboxes = await page.$$('input[name="akiyaInitRM.akiyaRefM.madoris"]');
-    const madoriValues = [
-      searchConfig.madori.madori_1R1K_1LDK,
-      searchConfig.madori.madori_2K_2LDK,
-      searchConfig.madori.madori_3K_3LDK,
-      searchConfig.madori.madori_4K_up,
-    ];
-
-    for (let i = 0; i < madoriCheckboxes.length && i < madoriValues.length; i++) {
-      const checkbox = madoriCheckboxes[i];
-      const shouldBeChecked = madoriValues[i];
-      const isChecked = await checkbox.isChecked();
-
-      if (isChecked !== shouldBeChecked) {
-        await checkbox.click();
+    await timed('set_madori', async () => {
+      const madoriCheckboxes = await page.$$(SELECTORS.form.madoris);
+      const madoriValues = [
+        searchConfig.madori.madori_1R1K_1LDK,
+        searchConfig.madori.madori_2K_2LDK,
+        searchConfig.madori.madori_3K_3LDK,
+        searchConfig.madori.madori_4K_up,
+      ];
+
+      for (let i = 0; i < madoriCheckboxes.length && i < madoriValues.length; i++) {
+        const checkbox = madoriCheckboxes[i];
+        if (!checkbox) continue;
+        const shouldBeChecked = madoriValues[i];
+        const isChecked = await checkbox.isChecked();
+
+        if (isChecked !== shouldBeChecked) {
+          await checkbox.click();
+        }
       }
-    }
+    });
 
     console.log('検索を実行しています...');
 
     // 検索ボタンをクリック（複数ある場合は最初のものを使用）
-    if (!page) {
-      throw new Error('ページが初期化されていません');
-    }
-
-    // デバッグ: Image1要素の情報を取得
-    console.log('Image1要素を検索中...');
-    const image1Elements = await page.locator('[name="Image1"]').all();
-    console.log(`Image1要素が${image1Elements.length}個見つかりました`);
-
-    for (let i = 0; i < image1Elements.length; i++) {
-      const element = image1Elements[i];
-      if (element) {
-        const isVisible = await element.isVisible();
-        const isEnabled = await element.isEnabled();
-        const boundingBox = await element.boundingBox();
-        console.log(`  要素${i + 1}: visible=${isVisible}, enabled=${isEnabled}, position=${JSON.stringify(boundingBox)}`);
-      }
-    }
-
-    const searchButton = page.locator('[name="Image1"]').first();
+    const searchButton = page.locator(SELECTORS.form.searchButton).first();
     console.log('検索ボタンをクリックします...');
-    await searchButton.click({ timeout: 30000 });
+    await timed('search_click', () => searchButton.click({ timeout: 30000 }));
     console.log('検索ボタンのクリックが完了しました');
 
-    // 検索結果を待つ
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(2000);
+    const shape = await timed('results_detection', async () => {
+      // 検索結果を待つ
+      await page.waitForLoadState('domcontentloaded');
+      await page.waitForTimeout(2000);
 
-    // エラーメッセージ（見つかりません）があるかチェック
-    try {
-      const errorMessage = await page.waitForSelector('.error', { timeout: 3000 });
-      if (errorMessage) {
-        console.log('検索結果: 該当なし');
-        await browser.close();
-        return {
-          success: true,
-          found: false,
-          message: '検索中(ヒットなし)...',
-        };
+      if (recordDir) {
+        await saveFixture(page, recordDir, 'results.html');
       }
-    } catch {
-      // エラーメッセージが見つからない = 物件が見つかった
-    }
 
-    // 物件が見つかった場合、スクリーンショットを保存
-    console.log('物件が見つかりました！スクリーンショットを保存しています...');
-
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-    const screenshotPath = join(LOGS_DIR, `property_${timestamp}.png`);
-
-    // ページ全体のスクリーンショットを撮る
-    const totalHeight = await page.evaluate(() => {
-      return Math.max(
-        document.body.scrollHeight,
-        document.body.offsetHeight,
-        document.documentElement.clientHeight,
-        document.documentElement.scrollHeight,
-        document.documentElement.offsetHeight
-      );
-    });
+      // 該当なしのメッセージか検索結果のテーブルが表示されるのを待つ
+      await page.waitForSelector(`${SELECTORS.results.noResults}, ${SELECTORS.results.rows}`, { timeout: 3000 }).catch(() => {});
+
+      // 検索結果ページを判別する（該当なしのメッセージがないだけでは物件ありとみなさない）
+      return classifyPage(await readPageContent(page));
+    }, shape => shape);
+    if (shape === 'no_results') {
+      console.log('検索結果: 該当なし');
+      return {
+        success: true,
+        found: false,
+        message: '検索中(ヒットなし)...',
+        pageShape: shape,
+      };
+    }
 
-    await page.setViewportSize({ width: 1920, height: totalHeight });
-    await page.screenshot({ path: screenshotPath, fullPage: true });
+    // 物件が見つかった場合、全ページの物件とスクリーンショット・詳細ページの情報を取得
+    const { listings, screenshotPaths } = shape === 'results'
+      ? await crawlResults(context, page, options, timed)
+      : { listings: [], screenshotPaths: [] };
+    if (listings.length === 0) {
+      return await unexpectedPage(page, shape, timed, captureFailure);
+    }
 
-    await browser.close();
+    console.log(`物件が見つかりました！(${listings.length}件)`);
 
     return {
       success: true,
       found: true,
-      message: '空きが検索されました。メールを送付して終了します。',
-      screenshotPath,
+      message: `空きが検索されました（${listings.length}件）。`,
+      listings,
+      screenshotPath: screenshotPaths[0],
+      screenshotPaths,
+      pageShape: 'results',
     };
 
   } catch (error) {
-    console.error('スクレイピング中にエラーが発生しました:', error);
-
-    if (browser) {
-      await browser.close();
+    if (signal?.aborted) {
+      console.log('チェックを中止しました');
+      return {
+        success: false,
+        found: false,
+        message: 'チェックを中止しました',
+        cancelled: true,
+        artifacts: await abortArtifacts,
+      };
     }
+    console.error('スクレイピング中にエラーが発生しました:', error);
 
     return {
       success: false,
       found: false,
       message: 'エラーが発生しました',
       error: error instanceof Error ? error.message : String(error),
+      artifacts: await captureFailure(),
+    };
+  } finally {
+    signal?.removeEventListener('abort', abort);
+    if (context) {
+      // 記録を保存しなかった場合のトレースを捨てる（保存した場合は止めてあるため何もしない）
+      if (options.failure_artifacts) {
+        await context.tracing.stop().catch(() => {});
+      }
+      await releaseContext(context);
+    }
+  }
+}
+
+/**
+ * 表示中のページから、判別と物件一覧の読み取りに使う内容を読み取る
+ */
+async function readPageContent(page: Page): Promise<PageContent> {
+  const text = await page.locator('body').innerText().catch(() => '');
+  const noResults = await page.locator(SELECTORS.results.noResults).count() > 0;
+  const formCounts = await Promise.all(
+    Object.values(SELECTORS.form).map(selector => page.locator(selector).count())
+  );
+  const rows = await page.locator(SELECTORS.results.rows).evaluateAll((elements, detailLink) => elements.map(row => {
+    const detail = row.querySelector(detailLink);
+    return {
+      cells: Array.from(row.children)
+        .filter(cell => cell.tagName === 'TH' || cell.tagName === 'TD')
+        .map(cell => (cell as HTMLElement).innerText.replace(/\s+/g, ' ').trim()),
+      href: detail?.getAttribute('href') ?? null,
+      onclick: detail?.getAttribute('onclick') ?? null,
+    };
+  }), SELECTORS.results.detailLink);
+
+  return { url: page.url(), text, noResults, form: formCounts.every(count => count > 0), rows };
+}
+
+/**
+ * ページを判別する
+ * 物件一覧の見出し行があるページを検索結果とみなす（物件を読み取れるかどうかは extractListings の結果で判断する）
+ */
+export function classifyPage(content: PageContent): PageShape {
+  if (SELECTORS.maintenanceText.some(keyword => content.text.includes(keyword))) {
+    return 'maintenance';
+  }
+  if (SELECTORS.sessionExpiredText.some(keyword => content.text.includes(keyword))) {
+    return 'session_expired';
+  }
+  if (content.noResults) {
+    return 'no_results';
+  }
+  if (content.rows.some(row => matchHeaderRow(row.cells))) {
+    return 'results';
+  }
+  if (content.form) {
+    return 'form';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * 想定外のページが表示された場合の結果を作成する
+ * メンテナンス中・セッション切れ以外はページ構成が変わったとみなし、確認用にスクリーンショットとHTMLを保存する
+ * captureFailure でエラーの時点の記録（failure_artifacts）も保存する
+ */
+async function unexpectedPage(
+  page: Page,
+  shape: PageShape,
+  timed: StepTimer,
+  captureFailure: () => Promise<FailureArtifacts | undefined>
+): Promise<ScrapeResult> {
+  if (shape === 'maintenance') {
+    console.log('JKKねっとがメンテナンス中です');
+    return {
+      success: false,
+      found: false,
+      message: 'JKKねっとがメンテナンス中のため検索できませんでした',
+      pageShape: shape,
+      error: 'メンテナンス中',
+      artifacts: await captureFailure(),
     };
   }
-}
\ No newline at end of file
+
+  if (shape === 'session_expired') {
+    console.log('JKKねっとのセッションが切れました');
+    return {
+      success: false,
+      found: false,
+      message: 'JKKねっとのセッションが切れたため検索できませんでした',
+      pageShape: shape,
+      error: 'セッション切れ',
+      artifacts: await captureFailure(),
+    };
+  }
+
+  console.error(`想定外のページが表示されました（セレクター v${SELECTORS.version}）: ${page.url()}`);
+  const screenshotPath = await timed('screenshot', () => saveScreenshot(page, 'site_changed'), 'site_changed');
+  await saveFixture(page, LOGS_DIR, `${basename(screenshotPath, '.png')}.html`);
+
+  return {
+    success: false,
+    found: false,
+    message: 'JKKねっとのページ構成が変わった可能性があります',
+    screenshotPath,
+    pageShape: 'unknown',
+    error: `想定外のページが表示されました（セレクター v${SELECTORS.version}）`,
+    artifacts: await captureFailure(),
+  };
+}
+
+/**
+ * エラーの時点のトレース・HTML・スクリーンショットを logs/ に保存する
+ * 表示中のページ（最後に開いたタブ）を記録する。保存に失敗したものは省略し、検索のエラーは上書きしない
+ */
+async function saveFailureArtifacts(context: BrowserContext): Promise<FailureArtifacts | undefined> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const prefix = join(LOGS_DIR, `failure_${timestamp}`);
+  const artifacts: FailureArtifacts = {};
+  const page = context.pages().at(-1);
+
+  if (page) {
+    try {
+      await page.screenshot({ path: `${prefix}.png`, fullPage: true, timeout: 10000 });
+      artifacts.screenshot = `${prefix}.png`;
+    } catch (error) {
+      console.error('エラー時のスクリーンショットの保存に失敗:', error);
+    }
+
+    await saveFixture(page, LOGS_DIR, `${basename(prefix)}.html`);
+    if (existsSync(`${prefix}.html`)) {
+      artifacts.html = `${prefix}.html`;
+    }
+  }
+
+  // スクリーンショットを撮る操作もトレースに含めるため、最後に止める
+  try {
+    await context.tracing.stop({ path: `${prefix}.zip` });
+    artifacts.trace = `${prefix}.zip`;
+  } catch (error) {
+    console.error('トレースの保存に失敗:', error);
+  }
+
+  if (Object.keys(artifacts).length === 0) {
+    return undefined;
+  }
+  console.log(`エラーの時点の記録を保存しました: ${prefix}.*`);
+  return artifacts;
+}
+
+/**
+ * ページ全体のスクリーンショットを logs/ に保存する
+ */
+async function saveScreenshot(page: Page, prefix: string): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const screenshotPath = join(LOGS_DIR, `${prefix}_${timestamp}.png`);
+
+  // ページ全体のスクリーンショットを撮る
+  const totalHeight = await page.evaluate(() => {
+    return Math.max(
+      document.body.scrollHeight,
+      document.body.offsetHeight,
+      document.documentElement.clientHeight,
+      document.documentElement.scrollHeight,
+      document.documentElement.offsetHeight
+    );
+  });
+
+  await page.setViewportSize({ width: 1920, height: totalHeight });
+  await page.screenshot({ path: screenshotPath, fullPage: true });
+
+  return screenshotPath;
+}
+
+/**
+ * 検索結果の各ページを順に開き、物件一覧・スクリーンショット・詳細ページの情報を集める
+ */
+async function crawlResults(
+  context: BrowserContext,
+  page: Page,
+  options: ScraperConfig,
+  timed: StepTimer
+): Promise<{ listings: Listing[]; screenshotPaths: string[] }> {
+  const listings = new Map<string, Listing>();
+  const screenshotPaths: string[] = [];
+  const maxPages = options.max_pages ?? DEFAULT_MAX_PAGES;
+
+  for (let pageNumber = 1; ; pageNumber++) {
+    const extracted = extractListings(await readPageContent(page));
+    if (extracted.length === 0) {
+      break;
+    }
+
+    console.log(`検索結果${pageNumber}ページ目: ${extracted.length}件。スクリーンショットを保存しています...`);
+    screenshotPaths.push(await timed(
+      'screenshot',
+      () => saveScreenshot(page, pageNumber === 1 ? 'property' : `property_p${pageNumber}`),
+      `${pageNumber}ページ目`
+    ));
+
+    if (options.fetch_details !== false) {
+      for (const { listing, row } of extracted) {
+        listing.detail = await timed(
+          'detail_page',
+          () => readDetail(context, page, row, `${screenshotPaths.length}_${row}`),
+          `${pageNumber}ページ目 ${row + 1}行目`
+        );
+      }
+    }
+
+    for (const { listing } of extracted) {
+      listings.set(listing.id, listing);
+    }
+
+    if (pageNumber >= maxPages) {
+      console.log(`最大ページ数（${maxPages}ページ）に達したため、以降のページは読み取りません`);
+      break;
+    }
+
+    const nextPage = page.locator(SELECTORS.results.nextPage).first();
+    if (await nextPage.count() === 0) {
+      break;
+    }
+
+    console.log(`検索結果${pageNumber + 1}ページ目を開いています...`);
+    await timed('next_page', async () => {
+      await nextPage.click();
+      await page.waitForLoadState('domcontentloaded');
+      await page.waitForSelector(SELECTORS.results.rows, { timeout: 3000 }).catch(() => {});
+    }, `${pageNumber + 1}ページ目`);
+  }
+
+  return { listings: [...listings.values()], screenshotPaths };
+}
+
+/**
+ * 検索結果の行の詳細ボタンから詳細ページを開き、情報を読み取る
+ * 詳細ページが別のタブで開く場合はそのタブを閉じ、同じタブで開く場合は検索結果に戻る
+ * 読み取れなかった場合は undefined を返す（検索自体は失敗にしない）
+ */
+async function readDetail(
+  context: BrowserContext,
+  page: Page,
+  row: number,
+  imageSuffix: string
+): Promise<ListingDetail | undefined> {
+  const detailButton = page.locator(SELECTORS.results.rows).nth(row).locator(SELECTORS.results.detailLink).first();
+  if (await detailButton.count() === 0) {
+    return undefined;
+  }
+
+  let detailPage: Page | null = null;
+
+  try {
+    const popup = context.waitForEvent('page', { timeout: DETAIL_TIMEOUT }).catch(() => null);
+    const navigation = page.waitForEvent('framenavigated', {
+      predicate: frame => frame === page.mainFrame(),
+      timeout: DETAIL_TIMEOUT,
+    }).then(() => page).catch(() => null);
+
+    await detailButton.click();
+    detailPage = await Promise.race([popup, navigation]);
+    if (!detailPage) {
+      console.log(`詳細ページが開きませんでした（${row + 1}行目）`);
+      return undefined;
+    }
+
+    await detailPage.waitForLoadState('domcontentloaded');
+    return await extractDetail(detailPage, imageSuffix);
+  } catch (error) {
+    console.error(`詳細ページの読み取りに失敗しました（${row + 1}行目）:`, error);
+    return undefined;
+  } finally {
+    if (detailPage && detailPage !== page) {
+      await detailPage.close().catch(() => {});
+    } else if (detailPage === page) {
+      await page.goBack({ waitUntil: 'domcontentloaded' }).catch(() => null);
+      await page.waitForSelector(SELECTORS.results.rows, { timeout: 3000 }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * 詳細ページの見出しと値の組から所在地・家賃の内訳・申込期限・備考を読み取り、間取り図を保存する
+ */
+async function extractDetail(page: Page, imageSuffix: string): Promise<ListingDetail> {
+  const pairs = await page.evaluate(() => {
+    const result: [string, string][] = [];
+    const text = (element: Element) => (element as HTMLElement).innerText.replace(/\s+/g, ' ').trim();
+
+    // th の直後の td、dt の直後の dd を見出しと値の組とみなす
+    for (const label of Array.from(document.querySelectorAll('th, dt'))) {
+      const value = label.nextElementSibling;
+      if (value && (value.tagName === 'TD' || value.tagName === 'DD')) {
+        result.push([text(label), text(value)]);
+      }
+    }
+    return result;
+  });
+
+  const detail: ListingDetail = { rent_breakdown: {} };
+  const notes: string[] = [];
+
+  for (const [rawLabel, value] of pairs) {
+    const label = rawLabel.replace(/\s/g, '');
+    if (!label || !value || label.length > 20) {
+      continue;
+    }
+
+    const field = (Object.entries(SELECTORS.detail.fields) as [DetailField, string[]][])
+      .find(([, keywords]) => keywords.some(keyword => label.startsWith(keyword)))?.[0];
+
+    if (field === 'address') {
+      detail.address ??= value;
+    } else if (field === 'rent_breakdown') {
+      detail.rent_breakdown[label] = value;
+    } else if (field === 'application_deadline') {
+      detail.application_deadline ??= value;
+    } else if (field === 'notes') {
+      notes.push(value);
+    }
+  }
+
+  if (notes.length > 0) {
+    detail.notes = notes.join('\n');
+  }
+
+  const floorPlan = page.locator(SELECTORS.detail.floorPlanImage).first();
+  if (await floorPlan.count() > 0) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    const floorPlanPath = join(LOGS_DIR, `floorplan_${timestamp}_${imageSuffix}.png`);
+    await floorPlan.screenshot({ path: floorPlanPath });
+    detail.floor_plan_path = floorPlanPath;
+  }
+
+  return detail;
+}
+
+/**
+ * 検索結果テーブルから物件一覧を読み取る
+ * 見出し行の文言から列の位置を決めるため、列の並びが変わっても読み取れる
+ */
+export function extractListings(content: PageContent): ExtractedListing[] {
+  const listings: ExtractedListing[] = [];
+  let columns: Partial<Record<ListingField, number>> | null = null;
+  let headerLength = 0;
+
+  for (const [rowIndex, { cells, href, onclick }] of content.rows.entries()) {
+    const headerColumns = matchHeaderRow(cells);
+    if (headerColumns) {
+      columns = headerColumns;
+      headerLength = cells.length;
+      continue;
+    }
+
+    // 見出し行と列数が一致する行だけを物件行として扱う（入れ子のテーブルを除外）
+    if (!columns || cells.length !== headerLength) {
+      continue;
+    }
+
+    const listing: Listing = {
+      id: '',
+      name: '',
+      area: '',
+      madori: '',
+      floor_area: '',
+      floor: '',
+      rent: '',
+      common_fee: '',
+    };
+    for (const [field, index] of Object.entries(columns) as [ListingField, number][]) {
+      listing[field] = cells[index] ?? '';
+    }
+    if (!listing.name) {
+      continue;
+    }
+
+    // 詳細ボタン・リンクから物件IDとリンクを取得
+    if (href && !href.startsWith('javascript:')) {
+      listing.link = new URL(href, content.url).toString();
+    }
+
+    const args = [...(onclick ?? href ?? '').matchAll(/'([^']*)'/g)].map(match => match[1]);
+    if (args.length > 0) {
+      listing.id = args.join(':');
+    }
+
+    if (!listing.id) {
+      listing.id = [listing.name, listing.floor, listing.madori, listing.floor_area].join('|');
+    }
+
+    listings.push({ listing, row: rowIndex });
+  }
+
+  return listings;
+}
+
+/**
+ * 見出し行であれば列の位置を返す
+ */
+function matchHeaderRow(cells: string[]): Partial<Record<ListingField, number>> | null {
+  const columns: Partial<Record<ListingField, number>> = {};
+
+  cells.forEach((cell, index) => {
+    const label = cell.replace(/\s/g, '');
+    // 入れ子のテーブルを含むセルは見出しとみなさない
+    if (!label || label.length > 12) {
+      return;
+    }
+
+    for (const [field, keywords] of Object.entries(LISTING_COLUMNS) as [ListingField, string[]][]) {
+      if (columns[field] === undefined && keywords.some(keyword => label.startsWith(keyword))) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+
+  return columns.name !== undefined && columns.madori !== undefined ? columns : null;
+}
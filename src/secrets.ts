@@ -0,0 +1,221 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, statSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * config.yaml の秘密の値の参照
+ *
+ * 設定の文字列の中に次の形式で書くと、読み込み時に実際の値に置き換える:
+ * - ${ENV:NAME}: 環境変数 NAME の値
+ * - ${SECRET:NAME}: 暗号化した secrets.enc に保存した NAME の値（鍵は環境変数 JKKWATCHER_SECRETS_KEY）
+ */
+
+const SECRETS_PATH = join(process.cwd(), 'secrets.enc');
+const SECRETS_KEY_ENV = 'JKKWATCHER_SECRETS_KEY';
+const REFERENCE_PATTERN = /\$\{(ENV|SECRET):([A-Za-z0-9_.-]+)\}/g;
+
+// 暗号化した secrets.enc の中身
+interface SecretsFile {
+  version: 1;
+  salt: string; // 鍵の導出に使うソルト（Base64）
+  iv: string;
+  tag: string;
+  data: string; // 名前 → 値 の JSON を AES-256-GCM で暗号化したもの
+}
+
+// 復号した secrets.enc の中身（ファイルが更新されたら読み込み直す）
+let cachedSecrets: { mtimeMs: number; secrets: Record<string, string> } | null = null;
+
+/**
+ * 鍵を環境変数のパスフレーズから導出する
+ */
+function deriveKey(salt: Buffer): Buffer {
+  const passphrase = process.env[SECRETS_KEY_ENV];
+  if (!passphrase) {
+    throw new Error(`secrets.enc を使うには環境変数 ${SECRETS_KEY_ENV} に鍵を設定してください`);
+  }
+  return scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * secrets.enc を復号して読み込む（ファイルがなければ空）
+ */
+export function loadSecrets(): Record<string, string> {
+  if (!existsSync(SECRETS_PATH)) {
+    return {};
+  }
+  const { mtimeMs } = statSync(SECRETS_PATH);
+  if (cachedSecrets?.mtimeMs === mtimeMs) {
+    return cachedSecrets.secrets;
+  }
+
+  const file = JSON.parse(readFileSync(SECRETS_PATH, 'utf8')) as SecretsFile;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+    const secrets = JSON.parse(json) as Record<string, string>;
+    cachedSecrets = { mtimeMs, secrets };
+    return secrets;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(SECRETS_KEY_ENV)) {
+      throw error;
+    }
+    throw new Error(`secrets.enc を復号できません（${SECRETS_KEY_ENV} の鍵が違う可能性があります）`);
+  }
+}
+
+/**
+ * secrets.enc の更新日時（ファイルがなければ0）
+ * 参照を置き換えた設定のキャッシュが古くなっていないかを調べるのに使う
+ */
+export function secretsModifiedAt(): number {
+  return existsSync(SECRETS_PATH) ? statSync(SECRETS_PATH).mtimeMs : 0;
+}
+
+/**
+ * secrets.enc を暗号化して保存する（保存のたびにソルトとIVを作り直す）
+ */
+export function saveSecrets(secrets: Record<string, string>): void {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  const file: SecretsFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  writeFileSync(SECRETS_PATH, JSON.stringify(file, null, 2), { encoding: 'utf8', mode: 0o600 });
+}
+
+/**
+ * 文字列に含まれる参照を実際の値に置き換える
+ */
+function resolveString(value: string): string {
+  return value.replace(REFERENCE_PATTERN, (_reference, source: string, name: string) => {
+    const resolved = source === 'ENV' ? process.env[name] : loadSecrets()[name];
+    if (resolved === undefined) {
+      throw new Error(source === 'ENV'
+        ? `環境変数が設定されていません: ${name}`
+        : `secrets.enc に値がありません: ${name}`);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * 設定に含まれる全ての参照を実際の値に置き換える
+ */
+export function resolveSecretReferences<T>(value: T): T {
+  if (typeof value === 'string') {
+    return resolveString(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveSecretReferences(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveSecretReferences(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 保存する設定のうち、元のファイルで参照だった項目を参照のまま残す
+ * 参照を置き換えた値から変更されていない場合のみ残し、変更された場合は新しい値を保存する
+ */
+export function preserveSecretReferences<T>(value: T, original: unknown): T {
+  if (typeof value === 'string' && typeof original === 'string' && original.match(REFERENCE_PATTERN)) {
+    try {
+      return (resolveString(original) === value ? original : value) as T;
+    } catch {
+      // 参照を解決できない場合は比較できないので、新しい値を保存する
+      return value;
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      preserveSecretReferences(item, Array.isArray(original) ? originalItem(item, index, original) : undefined)
+    ) as T;
+  }
+  if (value && typeof value === 'object') {
+    const originalObject = original && typeof original === 'object' ? original as Record<string, unknown> : {};
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, preserveSecretReferences(item, originalObject[key])])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 配列の要素に対応する元のファイルの要素を探す
+ * 並べ替え・追加・削除で別の要素の参照と比べないよう、通知チャネルは種類と名前、検索プロファイルは名前、
+ * 文字列（APIトークンなど）は参照を置き換えた値で対応させる
+ * 同じ位置に対応する要素があればそれを、なければ最初に見つかったものを使う（種類・名前のない要素は同じ位置のもの）
+ */
+function originalItem(item: unknown, index: number, original: unknown[]): unknown {
+  let matches: (candidate: unknown) => boolean;
+
+  if (typeof item === 'string') {
+    matches = candidate => {
+      try {
+        return typeof candidate === 'string' && resolveString(candidate) === item;
+      } catch {
+        return false;
+      }
+    };
+  } else {
+    const identity = (value: unknown): string | undefined => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+      }
+      const { type, name } = value as Record<string, unknown>;
+      return type === undefined && name === undefined ? undefined : JSON.stringify([type, name ?? type]);
+    };
+    const key = identity(item);
+    if (key === undefined) {
+      return original[index];
+    }
+    matches = candidate => identity(candidate) === key;
+  }
+
+  return matches(original[index]) ? original[index] : original.find(matches);
+}
+
+// 秘密の値の管理: bun run src/secrets.ts set <名前> [値] / delete <名前> / list
+// 値を省略した場合は標準入力から読み込む（シェルの履歴に残さないため）
+if (import.meta.main) {
+  const [command, name, value] = process.argv.slice(2);
+
+  try {
+    const secrets = { ...loadSecrets() };
+
+    if (command === 'set' && name) {
+      secrets[name] = value ?? (await Bun.stdin.text()).replace(/\r?\n$/, '');
+      saveSecrets(secrets);
+      console.log(`${name} を保存しました（config.yaml では \${SECRET:${name}} と書いてください）`);
+    } else if (command === 'delete' && name) {
+      if (!(name in secrets)) {
+        throw new Error(`secrets.enc に値がありません: ${name}`);
+      }
+      delete secrets[name];
+      saveSecrets(secrets);
+      console.log(`${name} を削除しました`);
+    } else if (command === 'list') {
+      for (const secretName of Object.keys(secrets)) {
+        console.log(secretName);
+      }
+    } else {
+      console.log('使い方: bun run src/secrets.ts set <名前> [値] | delete <名前> | list');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,137 @@
+import type { Listing } from './scraper';
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+
+export interface SeenListing {
+  fingerprint: string;
+  first_seen: string;
+  last_seen: string;
+  listing: Listing;
+}
+
+export interface ListingDiff {
+  added: Listing[]; // 初めて見つかった物件
+  changed: Listing[]; // 内容（家賃・床面積など）が変わった物件
+  unchanged: Listing[];
+}
+
+const SEEN_FILE = join(process.cwd(), 'logs', 'seen.json');
+
+/**
+ * 物件の内容から比較用の文字列を作る
+ */
+function fingerprint(listing: Listing): string {
+  return [
+    listing.name,
+    listing.area,
+    listing.madori,
+    listing.floor_area,
+    listing.floor,
+    listing.rent,
+    listing.common_fee,
+  ].join('|');
+}
+
+// プロファイル名 → 物件ID → 通知済みの物件
+type SeenStore = Record<string, Record<string, SeenListing>>;
+
+/**
+ * 通知済みの物件を読み込む
+ */
+function loadSeen(): SeenStore {
+  try {
+    if (!existsSync(SEEN_FILE)) {
+      return {};
+    }
+    return JSON.parse(readFileSync(SEEN_FILE, 'utf8'));
+  } catch (error) {
+    console.error('通知済み物件の読み込みに失敗:', error);
+    return {};
+  }
+}
+
+/**
+ * 通知済みの物件を保存する
+ */
+function saveSeen(store: SeenStore): void {
+  try {
+    mkdirSync(dirname(SEEN_FILE), { recursive: true });
+    writeFileSync(SEEN_FILE, JSON.stringify(store, null, 2), 'utf8');
+  } catch (error) {
+    console.error('通知済み物件の保存に失敗:', error);
+  }
+}
+
+/**
+ * 今回の検索結果を通知済みの物件と比較する
+ */
+export function diffListings(profile: string, listings: Listing[]): ListingDiff {
+  const seen = loadSeen()[profile] ?? {};
+  const diff: ListingDiff = { added: [], changed: [], unchanged: [] };
+
+  for (const listing of listings) {
+    const previous = seen[listing.id];
+    if (!previous) {
+      diff.added.push(listing);
+    } else if (previous.fingerprint !== fingerprint(listing)) {
+      diff.changed.push(listing);
+    } else {
+      diff.unchanged.push(listing);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * 今回の検索結果を通知済みとして保存する
+ * 検索結果から消えた物件は削除し、再度掲載されたときに改めて通知する
+ */
+export function markSeen(profile: string, listings: Listing[]): void {
+  const store = loadSeen();
+  const seen = store[profile] ?? {};
+  const now = new Date().toISOString();
+  const next: Record<string, SeenListing> = {};
+
+  for (const listing of listings) {
+    next[listing.id] = {
+      fingerprint: fingerprint(listing),
+      first_seen: seen[listing.id]?.first_seen ?? now,
+      last_seen: now,
+      listing,
+    };
+  }
+
+  store[profile] = next;
+  saveSeen(store);
+}
+
+/**
+ * 通知済みの物件一覧を取得（プロファイル名ごと）
+ */
+export function getSeenListings(): Record<string, SeenListing[]> {
+  const store = loadSeen();
+  return Object.fromEntries(
+    Object.entries(store).map(([profile, seen]) => [profile, Object.values(seen)])
+  );
+}
+
+/**
+ * 通知済みの物件をクリア（次回のチェックで全件を改めて通知する）
+ * プロファイル名を省略した場合は全プロファイルをクリア
+ */
+export function clearSeen(profile?: string): void {
+  try {
+    if (existsSync(SEEN_FILE)) {
+      const store = profile ? loadSeen() : {};
+      if (profile) {
+        delete store[profile];
+      }
+      writeFileSync(SEEN_FILE, JSON.stringify(store), 'utf8');
+      console.log('通知済み物件をクリアしました');
+    }
+  } catch (error) {
+    console.error('通知済み物件のクリアに失敗:', error);
+    throw error;
+  }
+}
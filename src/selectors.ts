@@ -0,0 +1,68 @@
+/**
+ * JKKねっとのページから要素を探すためのセレクター
+ * JKKねっとのページ構成が変わった場合はここを更新し、version を上げる
+ */
+export interface SelectorMap {
+  version: string;
+  form: {
+    kanaName: string; // 物件名（カナ）
+    kaisoFrom: string; // 階層
+    mensekiFrom: string; // 床面積
+    madoris: string; // 間取りのチェックボックス
+    searchButton: string; // 検索ボタン
+  };
+  results: {
+    noResults: string; // 該当なしのメッセージ
+    rows: string; // 検索結果テーブルの行
+    detailLink: string; // 詳細ボタン・リンク
+    nextPage: string; // 次のページへのリンク
+  };
+  detail: {
+    // 詳細ページの見出し（th・dt）がこれらの文言で始まる項目を読み取る
+    fields: Record<DetailField, string[]>;
+    floorPlanImage: string; // 間取り図の画像
+  };
+  // 本文にこれらの文言を含むページはメンテナンス中・セッション切れとみなす
+  maintenanceText: string[];
+  sessionExpiredText: string[];
+}
+
+export type DetailField = 'address' | 'rent_breakdown' | 'application_deadline' | 'notes';
+
+/**
+ * ページの判別結果
+ * form: 検索条件の入力ページ / no_results: 該当なし / results: 検索結果あり
+ * maintenance: メンテナンス中 / session_expired: セッション切れ / unknown: 想定外のページ（ページ構成の変更）
+ */
+export type PageShape = 'form' | 'no_results' | 'results' | 'maintenance' | 'session_expired' | 'unknown';
+
+// 検索フォームの床面積の選択肢（option の表示名。searches[].menseki_from にはこのいずれかを指定する）
+export const MENSEKI_LABELS = ['こだわらない', '２０', '３０', '４０', '５０', '６０', '７０', '８０', '９０', '１００'] as const;
+
+export const SELECTORS: SelectorMap = {
+  version: '2',
+  form: {
+    kanaName: 'input[name="akiyaInitRM.akiyaRefM.jyutakuKanaName"]',
+    kaisoFrom: 'input[name="akiyaInitRM.akiyaRefM.kaisoFrom"]',
+    mensekiFrom: 'select[name="akiyaInitRM.akiyaRefM.mensekiFrom"]',
+    madoris: 'input[name="akiyaInitRM.akiyaRefM.madoris"]',
+    searchButton: '[name="Image1"]',
+  },
+  results: {
+    noResults: '.error',
+    rows: 'table tr',
+    detailLink: 'a[href], [onclick]',
+    nextPage: 'a:has-text("次へ"), input[type="button"][value*="次へ"], input[type="image"][alt*="次へ"]',
+  },
+  detail: {
+    fields: {
+      address: ['所在地', '住所'],
+      rent_breakdown: ['家賃', '共益費', '敷金', '駐車場', '使用料'],
+      application_deadline: ['申込期限', '申込締切', '申込期間', '募集期間', '受付期間'],
+      notes: ['備考', '特記事項', '注意事項'],
+    },
+    floorPlanImage: 'img[alt*="間取"], img[src*="madori"]',
+  },
+  maintenanceText: ['メンテナンス中', 'システムメンテナンス', 'サービスを停止しております', 'メンテナンスのため'],
+  sessionExpiredText: ['セッションが切れ', 'セッションの有効期限', 'タイムアウトしました', '最初からやり直して', '不正な画面遷移'],
+};
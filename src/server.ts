@@ -1,10 +1,31 @@
-import { loadConfig, saveConfig, type Config } from './config';
-import { startWatcher, stopWatcher, getStatus, getLogs, runOnce, clearLogs, addLog, setBroadcastCallback } from './watcher';
+import { loadConfig, loadAuthConfig, saveConfig, validateConfig, migrateConfig, maskSecrets, restoreSecrets, configExists, onConfigChange, watchConfigFile, unwatchConfigFile, type Config, type AuthConfig } from './config';
+import { isAuthEnabled, isAuthenticated, isAllowedOrigin, corsHeaders, verifyPassword, createSession, deleteSession } from './auth';
+import { startWatcher, stopWatcher, getStatus, applyConfig, startCheckJob, startPreviewJob, type WatcherStatus } from './watcher';
+import { getJob, listJobs } from './jobs';
+import { getLogs, queryLogs, clearLogs, type LogQuery } from './history';
+import { setBroadcastCallback } from './events';
+import { shutdownBrowser } from './browser';
+import { getDatabase, closeDatabase } from './db';
+import { getSeenListings, clearSeen } from './seen';
+import { sendTestEmail } from './notifier';
+import { startOutbox, getOutbox, retryOutboxItem, deleteOutboxItem } from './outbox';
+import { startJanitor, runJanitor, getLastJanitorReport } from './janitor';
+import { renderMetrics } from './metrics';
+import { ConfigValidationError } from './schema';
+import { cancelCheck } from './runner';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import type { ServerWebSocket } from 'bun';
 
 const PORT = 3000;
+const DEFAULT_MAX_SUCCESS_AGE_SECONDS = 60 * 60;
+
+// エラーの時点の記録（/api/artifacts）の拡張子 → Content-Type
+const ARTIFACT_CONTENT_TYPES = {
+  zip: 'application/zip',
+  html: 'text/html; charset=utf-8',
+  png: 'image/png',
+};
 
 // WebSocket接続を管理
 const wsConnections = new Set<ServerWebSocket<unknown>>();
@@ -22,33 +43,191 @@ export function broadcastToClients(message: any): void {
 // WatcherからのブロードキャストをWebSocketに接続
 setBroadcastCallback(broadcastToClients);
 
+// 設定の変更（画面からの保存・config.yaml の編集）を実行中の監視に反映
+onConfigChange(applyConfig);
+
+/**
+ * 保存前の設定でチェックする場合の設定（隠した値のまま送られた項目は保存済みの値を引き継ぐ）
+ */
+function previewConfig(body: unknown): Config {
+  const config = restoreSecrets(migrateConfig(body), currentConfig());
+  validateConfig(config);
+  return config;
+}
+
+/**
+ * /api/logs のクエリパラメーターを検索条件にする
+ */
+function parseLogQuery(params: URLSearchParams): LogQuery {
+  const query: LogQuery = {};
+
+  const number = (name: string): number | undefined => {
+    const value = params.get(name);
+    if (value === null || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`${name} が不正です: ${value}`);
+    }
+    return parsed;
+  };
+  const date = (name: string): string | undefined => {
+    const value = params.get(name);
+    if (!value) {
+      return undefined;
+    }
+    if (Number.isNaN(new Date(value).getTime())) {
+      throw new Error(`${name} が不正です: ${value}`);
+    }
+    return value;
+  };
+  const boolean = (name: string): boolean | undefined => {
+    const value = params.get(name);
+    if (value === null || value === '') {
+      return undefined;
+    }
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`${name} は true または false で指定してください`);
+    }
+    return value === 'true';
+  };
+
+  query.limit = number('limit');
+  query.cursor = number('cursor');
+  query.from = date('from');
+  query.to = date('to');
+  query.found = boolean('found');
+  query.error = boolean('error');
+  query.profile = params.get('profile') || undefined;
+  query.q = params.get('q') || undefined;
+
+  return query;
+}
+
+/**
+ * 監視が止まっていないかを判定する（/healthz 用）
+ * 監視中に最後の成功（まだなければ監視の開始）から一定時間が経った場合、または異常として通知済みの場合は異常とする
+ */
+function checkHealth(status: WatcherStatus, maxSuccessAgeSeconds: number): { healthy: boolean; reason?: string } {
+  if (!status.isRunning) {
+    return { healthy: true };
+  }
+  if (status.circuitOpen) {
+    return { healthy: false, reason: `チェックが${status.failureStreak}回続けて失敗しています` };
+  }
+
+  const since = status.lastSuccessTime ?? status.startedAt;
+  if (since && Date.now() - new Date(since).getTime() > maxSuccessAgeSeconds * 1000) {
+    return { healthy: false, reason: `最後の成功から${maxSuccessAgeSeconds}秒以上経っています` };
+  }
+  return { healthy: true };
+}
+
+/**
+ * 保存済みの設定（読み込めない場合は undefined）
+ * 画面から受け取った設定の隠した値を戻すために使う
+ */
+function currentConfig(): Config | undefined {
+  try {
+    return configExists() ? loadConfig() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Webサーバーを起動
  */
 export function startServer(): void {
   console.log(`Webサーバーを起動しています... http://localhost:${PORT}`);
 
+  try {
+    if (!isAuthEnabled(loadAuthConfig())) {
+      console.warn('⚠️ ログインが設定されていません。同じネットワークの誰でも設定を変更できます（config.yaml の auth を設定してください）');
+    }
+  } catch (error) {
+    console.error('ログイン設定の読み込みに失敗:', error);
+  }
+
   Bun.serve({
     port: PORT,
     async fetch(req, server) {
       const url = new URL(req.url);
 
-      // WebSocketアップグレードリクエスト
-      if (url.pathname === '/ws' && server.upgrade(req)) {
-        return; // WebSocketにアップグレード成功
+      // ログイン設定（設定ファイルを読み込めない場合は API を使えないようにする）
+      let auth: AuthConfig | undefined;
+      try {
+        auth = loadAuthConfig();
+      } catch (error) {
+        console.error('ログイン設定の読み込みに失敗:', error);
+        if (url.pathname === '/ws' || url.pathname.startsWith('/api/')) {
+          return new Response(JSON.stringify({ error: '設定ファイルを読み込めません' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
       }
 
-      // CORS対応
-      const headers = {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      };
+      // CORS対応（allowed_origins に含まれるオリジンのみ許可）
+      const headers = corsHeaders(req, auth);
 
       if (req.method === 'OPTIONS') {
         return new Response(null, { headers });
       }
 
+      if ((url.pathname === '/ws' || url.pathname.startsWith('/api/')) && !isAllowedOrigin(req, auth)) {
+        return new Response(JSON.stringify({ error: 'このオリジンからのアクセスは許可されていません' }), {
+          status: 403,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/session' && req.method === 'GET') {
+        // ログインが必要か・ログイン済みか
+        return new Response(JSON.stringify({
+          auth_required: isAuthEnabled(auth),
+          authenticated: isAuthenticated(req, auth),
+        }), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/login' && req.method === 'POST') {
+        // パスワードでログインし、セッションの Cookie を発行する
+        const body = await req.json().catch(() => ({})) as { password?: string };
+        if (!verifyPassword(auth, String(body.password ?? ''))) {
+          // 総当たりを遅らせる
+          await Bun.sleep(1000);
+          return new Response(JSON.stringify({ error: 'パスワードが違います' }), {
+            status: 401,
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...headers, 'Content-Type': 'application/json', 'Set-Cookie': createSession(auth) },
+        });
+      }
+
+      if (url.pathname === '/api/logout' && req.method === 'POST') {
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...headers, 'Content-Type': 'application/json', 'Set-Cookie': deleteSession(req) },
+        });
+      }
+
+      // API と WebSocket はログインが必要
+      if ((url.pathname === '/ws' || url.pathname.startsWith('/api/')) && !isAuthenticated(req, auth)) {
+        return new Response(JSON.stringify({ error: 'ログインしてください' }), {
+          status: 401,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // WebSocketアップグレードリクエスト
+      if (url.pathname === '/ws' && server.upgrade(req)) {
+        return; // WebSocketにアップグレード成功
+      }
+
       // ルーティング
       if (url.pathname === '/') {
         // HTML UIを返す
@@ -61,7 +240,8 @@ export function startServer(): void {
       if (url.pathname === '/api/config' && req.method === 'GET') {
         // 設定を取得
         try {
-          const config = loadConfig();
+          // パスワードなどの秘密の値は隠して返す
+          const config = maskSecrets(loadConfig());
           return new Response(JSON.stringify(config), {
             headers: { ...headers, 'Content-Type': 'application/json' },
           });
@@ -76,7 +256,8 @@ export function startServer(): void {
       if (url.pathname === '/api/config' && req.method === 'POST') {
         // 設定を保存
         try {
-          const config = await req.json() as Config;
+          // 隠した値のまま送られた項目は、保存済みの値を引き継ぐ
+          const config = restoreSecrets(migrateConfig(await req.json() as Config), currentConfig());
           saveConfig(config);
           return new Response(JSON.stringify({ success: true }), {
             headers: { ...headers, 'Content-Type': 'application/json' },
@@ -85,6 +266,7 @@ export function startServer(): void {
           return new Response(
             JSON.stringify({
               error: error instanceof Error ? error.message : '設定の保存に失敗しました',
+              issues: error instanceof ConfigValidationError ? error.issues : undefined,
             }),
             {
               status: 400,
@@ -94,6 +276,79 @@ export function startServer(): void {
         }
       }
 
+      if (url.pathname === '/api/test-email' && req.method === 'POST') {
+        // テストメールを送信（設定を指定した場合はその設定を使用、保存しない）
+        try {
+          const body = await req.json().catch(() => null) as Config | null;
+          const config = body ? restoreSecrets(migrateConfig(body), currentConfig()) : loadConfig();
+          await sendTestEmail(config);
+          return new Response(JSON.stringify({ success: true, message: 'テストメールを送信しました' }), {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : 'テストメールの送信に失敗しました',
+              issues: error instanceof ConfigValidationError ? error.issues : undefined,
+            }),
+            {
+              status: error instanceof ConfigValidationError ? 400 : 500,
+              headers: { ...headers, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+
+      if (url.pathname === '/metrics' && req.method === 'GET') {
+        // Prometheus 形式のメトリクス
+        return new Response(renderMetrics(getStatus()), {
+          headers: { ...headers, 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+        });
+      }
+
+      if (url.pathname === '/healthz' && req.method === 'GET') {
+        // 監視が止まっていないか（異常の場合は503）
+        const status = getStatus();
+        let maxSuccessAgeSeconds = DEFAULT_MAX_SUCCESS_AGE_SECONDS;
+        try {
+          maxSuccessAgeSeconds = loadConfig().health?.max_success_age_seconds ?? DEFAULT_MAX_SUCCESS_AGE_SECONDS;
+        } catch {
+          // 設定を読み込めない場合は既定値で判定する
+        }
+        const health = checkHealth(status, maxSuccessAgeSeconds);
+        return new Response(JSON.stringify({
+          status: health.healthy ? 'ok' : 'unhealthy',
+          reason: health.reason,
+          watcher: status.isRunning ? 'running' : 'stopped',
+          lastSuccessTime: status.lastSuccessTime,
+          failureStreak: status.failureStreak,
+        }), {
+          status: health.healthy ? 200 : 503,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/readyz' && req.method === 'GET') {
+        // 設定ファイルとデータベースを読み込めるか（読み込めない場合は503）
+        try {
+          loadConfig();
+          getDatabase().query('SELECT 1').get();
+          return new Response(JSON.stringify({ status: 'ok' }), {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        } catch (error) {
+          // 認証なしで公開するため、エラーの詳細は返さずにサーバーのログにだけ残す
+          console.error('/readyz: 準備ができていません:', error);
+          return new Response(JSON.stringify({
+            status: 'unavailable',
+            error: 'not ready',
+          }), {
+            status: 503,
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        }
+      }
+
       if (url.pathname === '/api/status' && req.method === 'GET') {
         // ステータスを取得
         const status = getStatus();
@@ -131,74 +386,141 @@ export function startServer(): void {
       }
 
       if (url.pathname === '/api/check' && req.method === 'POST') {
-        // 手動チェック（保存済み設定を使用）
+        // 手動チェック（保存済み設定を使用、profile を指定するとそのプロファイルのみ）
+        // 終了を待たずにジョブを返す。結果は GET /api/jobs/:id で取得する
+        const body = await req.json().catch(() => ({})) as { profile?: string };
+        const job = startCheckJob(body.profile);
+        return new Response(JSON.stringify({ success: true, message: 'チェックを開始しました', job }), {
+          status: 202,
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/check/cancel' && req.method === 'POST') {
+        // 実行中のチェックを中止
+        const label = cancelCheck();
+        if (!label) {
+          return new Response(JSON.stringify({ error: '実行中のチェックはありません' }), {
+            status: 409,
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ success: true, message: `${label} のチェックを中止しました` }), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/check-with-config' && req.method === 'POST') {
+        // 手動チェック（指定された設定を使用、保存しない）
+        // POST /api/jobs の type: preview と同じ。終了を待たずにジョブを返す
         try {
-          runOnce();
-          return new Response(JSON.stringify({ success: true, message: 'チェックを開始しました' }), {
+          const job = startPreviewJob(previewConfig(await req.json()));
+          return new Response(JSON.stringify({ success: true, message: 'チェックを開始しました', job }), {
+            status: 202,
             headers: { ...headers, 'Content-Type': 'application/json' },
           });
         } catch (error) {
           return new Response(
             JSON.stringify({
               error: error instanceof Error ? error.message : 'チェックの実行に失敗しました',
+              issues: error instanceof ConfigValidationError ? error.issues : undefined,
             }),
             {
-              status: 500,
+              status: 400,
               headers: { ...headers, 'Content-Type': 'application/json' },
             }
           );
         }
       }
 
-      if (url.pathname === '/api/check-with-config' && req.method === 'POST') {
-        // 手動チェック（指定された設定を使用、保存しない）
+      if (url.pathname === '/api/jobs' && req.method === 'POST') {
+        // チェックのジョブを開始（type: check は保存済みの設定、type: preview は config に指定した設定でチェック）
         try {
-          const config = await req.json() as Config;
-
-          // バリデーションを実行（保存はしない）
-          const { validateConfig } = await import('./config');
-          validateConfig(config);
-
-          // 一時的にこの設定でチェックを実行
-          const { searchAvailableProperty } = await import('./scraper');
-          const result = await searchAvailableProperty(config.search, config.headless);
-
-          // ログに記録
-          addLog({
-            timestamp: new Date().toISOString(),
-            message: result.message,
-            found: result.found,
-            screenshotPath: result.screenshotPath,
-          });
-
-          return new Response(JSON.stringify({
-            success: true,
-            message: result.found ? '物件が見つかりました！' : 'チェックを完了しました'
-          }), {
+          const body = await req.json().catch(() => ({})) as { type?: string; profile?: string; config?: unknown };
+          let job;
+          if (body.type === 'check') {
+            job = startCheckJob(body.profile);
+          } else if (body.type === 'preview') {
+            job = startPreviewJob(previewConfig(body.config));
+          } else {
+            throw new Error('type には check または preview を指定してください');
+          }
+          return new Response(JSON.stringify(job), {
+            status: 202,
             headers: { ...headers, 'Content-Type': 'application/json' },
           });
         } catch (error) {
           return new Response(
             JSON.stringify({
-              error: error instanceof Error ? error.message : 'チェックの実行に失敗しました',
+              error: error instanceof Error ? error.message : 'ジョブの開始に失敗しました',
+              issues: error instanceof ConfigValidationError ? error.issues : undefined,
             }),
             {
-              status: 500,
+              status: 400,
               headers: { ...headers, 'Content-Type': 'application/json' },
             }
           );
         }
       }
 
-      if (url.pathname === '/api/logs' && req.method === 'GET') {
-        // ログを取得
-        const limit = parseInt(url.searchParams.get('limit') || '20');
-        const logs = getLogs(limit);
-        return new Response(JSON.stringify(logs), {
+      if (url.pathname === '/api/jobs' && req.method === 'GET') {
+        // 最近のジョブの一覧（新しい順）
+        return new Response(JSON.stringify({ jobs: listJobs() }), {
           headers: { ...headers, 'Content-Type': 'application/json' },
         });
       }
 
+      const jobMatch = url.pathname.match(/^\/api\/jobs\/([\w-]+)$/);
+      if (jobMatch && req.method === 'GET') {
+        // ジョブの状態と結果
+        const job = getJob(jobMatch[1] ?? '');
+        if (!job) {
+          return new Response('Not Found', { status: 404, headers });
+        }
+        return new Response(JSON.stringify(job), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const jobCancelMatch = url.pathname.match(/^\/api\/jobs\/([\w-]+)\/cancel$/);
+      if (jobCancelMatch && req.method === 'POST') {
+        // ジョブのチェックを中止（順番待ちの場合は実行せずに順番待ちから外す）
+        const jobId = jobCancelMatch[1] ?? '';
+        if (!getJob(jobId)) {
+          return new Response('Not Found', { status: 404, headers });
+        }
+        const label = cancelCheck(jobId);
+        if (!label) {
+          return new Response(JSON.stringify({ error: 'このジョブのチェックは実行中・順番待ちではありません' }), {
+            status: 409,
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        }
+        return new Response(JSON.stringify({ success: true, message: `${label} のチェックを中止しました` }), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/logs' && req.method === 'GET') {
+        // ログを取得（期間・物件あり・エラー・プロファイル・キーワードで絞り込み、cursor で続きを取得）
+        try {
+          const logs = queryLogs(parseLogQuery(url.searchParams));
+          return new Response(JSON.stringify(logs), {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : 'ログの取得に失敗しました',
+            }),
+            {
+              status: 400,
+              headers: { ...headers, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+
       if (url.pathname === '/api/logs' && req.method === 'DELETE') {
         // ログをクリア
         try {
@@ -219,9 +541,112 @@ export function startServer(): void {
         }
       }
 
-      if (url.pathname.startsWith('/api/screenshot/') && req.method === 'GET') {
-        // スクリーンショットを取得
-        const filename = url.pathname.replace('/api/screenshot/', '');
+      if (url.pathname === '/api/seen' && req.method === 'GET') {
+        // 通知済みの物件を取得
+        return new Response(JSON.stringify(getSeenListings()), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (url.pathname === '/api/seen' && req.method === 'DELETE') {
+        // 通知済みの物件をクリア
+        try {
+          clearSeen();
+          return new Response(JSON.stringify({ success: true, message: '通知済みの物件をクリアしました' }), {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : '通知済みの物件のクリアに失敗しました',
+            }),
+            {
+              status: 500,
+              headers: { ...headers, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+
+      if (url.pathname === '/api/janitor' && req.method === 'GET') {
+        // 最後に実行した古いログ・ファイルの削除結果を取得
+        return new Response(JSON.stringify(getLastJanitorReport()), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if ((url.pathname === '/api/janitor/run' || url.pathname === '/api/janitor/dry-run') && req.method === 'POST') {
+        // 古いログ・ファイルを削除（dry-run は削除せずに対象を返す）
+        try {
+          const report = runJanitor(url.pathname === '/api/janitor/dry-run');
+          return new Response(JSON.stringify(report), {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+          });
+        } catch (error) {
+          return new Response(
+            JSON.stringify({
+              error: error instanceof Error ? error.message : '古いログ・ファイルの削除に失敗しました',
+            }),
+            {
+              status: 500,
+              headers: { ...headers, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+
+      if (url.pathname === '/api/outbox' && req.method === 'GET') {
+        // 再送信キューを取得
+        return new Response(JSON.stringify(getOutbox()), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const outboxRetryMatch = url.pathname.match(/^\/api\/outbox\/([\w-]+)\/retry$/);
+      if (outboxRetryMatch && req.method === 'POST') {
+        // 失敗した通知を再送信待ちに戻す
+        if (!retryOutboxItem(outboxRetryMatch[1] ?? '')) {
+          return new Response('Not Found', { status: 404, headers });
+        }
+        return new Response(JSON.stringify({ success: true, message: '再送信待ちに戻しました' }), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const outboxItemMatch = url.pathname.match(/^\/api\/outbox\/([\w-]+)$/);
+      if (outboxItemMatch && req.method === 'DELETE') {
+        // 再送信キューから削除
+        if (!deleteOutboxItem(outboxItemMatch[1] ?? '')) {
+          return new Response('Not Found', { status: 404, headers });
+        }
+        return new Response(JSON.stringify({ success: true, message: '再送信キューから削除しました' }), {
+          headers: { ...headers, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const artifactMatch = url.pathname.match(/^\/api\/artifacts\/(failure_[\w-]+\.(zip|html|png))$/);
+      if (artifactMatch && req.method === 'GET') {
+        // エラーの時点のトレース・HTML・スクリーンショットを取得（HTMLとトレースはダウンロードさせる）
+        const filename = artifactMatch[1] ?? '';
+        const artifactPath = join(process.cwd(), 'logs', filename);
+        if (!existsSync(artifactPath)) {
+          return new Response('Not Found', { status: 404, headers });
+        }
+
+        const extension = artifactMatch[2] as 'zip' | 'html' | 'png';
+        return new Response(readFileSync(artifactPath), {
+          headers: {
+            ...headers,
+            'Content-Type': ARTIFACT_CONTENT_TYPES[extension],
+            ...(extension !== 'png' ? { 'Content-Disposition': `attachment; filename="${filename}"` } : {}),
+          },
+        });
+      }
+
+      const screenshotMatch = url.pathname.match(/^\/api\/screenshot\/((?:property|floorplan|site_changed)_[\w-]+\.png)$/);
+      if (screenshotMatch && req.method === 'GET') {
+        // スクリーンショットを取得（logs/ 内の他のファイルは返さない）
+        const filename = screenshotMatch[1] ?? '';
         const screenshotPath = join(process.cwd(), 'logs', filename);
 
         if (existsSync(screenshotPath)) {
@@ -247,6 +672,7 @@ export function startServer(): void {
           data: {
             status: getStatus(),
             logs: getLogs(100),
+            outbox: getOutbox(),
           },
         }));
       },
@@ -259,6 +685,15 @@ export function startServer(): void {
           // 必要に応じてメッセージタイプごとに処理を追加
           if (data.type === 'ping') {
             ws.send(JSON.stringify({ type: 'pong' }));
+          } else if (data.type === 'cancel_check') {
+            // チェックを中止（jobId を省略した場合は実行中のチェック。/api/check/cancel・/api/jobs/:id/cancel と同じ）
+            const label = cancelCheck(typeof data.jobId === 'string' ? data.jobId : undefined);
+            ws.send(JSON.stringify({
+              type: 'cancel_check_result',
+              data: label
+                ? { success: true, message: `${label} のチェックを中止しました` }
+                : { success: false, message: '実行中のチェックはありません' },
+            }));
           }
         } catch (error) {
           console.error('WebSocketメッセージ処理エラー:', error);
@@ -279,9 +714,12 @@ export function startServer(): void {
               // 監視が動いていれば停止
               stopWatcher();
 
-              // 少し待ってからプロセスを終了
-              setTimeout(() => {
+              // 少し待ってからブラウザを閉じてプロセスを終了
+              setTimeout(async () => {
                 console.log('👋 サーバーを終了します');
+                await shutdownBrowser(true);
+                unwatchConfigFile();
+                closeDatabase();
                 process.exit(0);
               }, 1000);
             }
@@ -295,6 +733,15 @@ export function startServer(): void {
 
   console.log(`✅ サーバーが起動しました: http://localhost:${PORT}`);
 
+  // 未送信の通知の再送信を開始
+  startOutbox();
+
+  // config.yaml の直接の編集を監視
+  watchConfigFile();
+
+  // 古いログ・ファイルの定期削除を開始
+  startJanitor();
+
   // ブラウザを自動で開く
   if (process.platform === 'darwin') {
     Bun.spawn(['open', `http://localhost:${PORT}`]);
@@ -0,0 +1,105 @@
+import type { Listing, ListingDetail } from './scraper';
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+// ユーザーが上書きするテンプレートの置き場所（同名のファイルがあれば優先）
+const USER_TEMPLATES_DIR = join(process.cwd(), 'templates');
+// 同梱のテンプレート
+const DEFAULT_TEMPLATES_DIR = join(import.meta.dir, 'templates');
+
+// インライン画像として埋め込むスクリーンショットのCID
+export const SCREENSHOT_CID = 'screenshot@jkkwatcher';
+
+/**
+ * インライン画像として埋め込む間取り図のCID（index は通知する物件一覧での位置）
+ */
+export function floorPlanCid(index: number): string {
+  return `floorplan-${index}@jkkwatcher`;
+}
+
+/**
+ * テンプレートファイルを読み込む
+ */
+export function loadTemplate(name: string): string {
+  const userPath = join(USER_TEMPLATES_DIR, name);
+  const path = existsSync(userPath) ? userPath : join(DEFAULT_TEMPLATES_DIR, name);
+  return readFileSync(path, 'utf8');
+}
+
+/**
+ * HTMLエスケープ
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] ?? c));
+}
+
+/**
+ * テンプレートの {{name}} を値で置き換える
+ * html が true の場合、名前が _html で終わるもの以外はエスケープする
+ */
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string>,
+  html: boolean = false
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    const value = vars[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return html && !name.endsWith('_html') ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * 物件一覧をHTMLの表にする
+ * 詳細ページの情報がある物件は、その下の行に所在地・家賃の内訳・申込期限・備考・間取り図を表示する
+ */
+export function renderListingsTable(listings: Listing[]): string {
+  if (listings.length === 0) {
+    return '';
+  }
+
+  const cell = 'style="padding: 4px 8px; border: 1px solid #d1d5db;"';
+  const rows = listings.map((listing, index) => `
+    <tr>
+      <td ${cell}>${listing.link ? `<a href="${escapeHtml(listing.link)}">${escapeHtml(listing.name)}</a>` : escapeHtml(listing.name)}</td>
+      <td ${cell}>${escapeHtml(listing.area)}</td>
+      <td ${cell}>${escapeHtml(listing.madori)}</td>
+      <td ${cell}>${escapeHtml(listing.floor_area)}</td>
+      <td ${cell}>${escapeHtml(listing.floor)}</td>
+      <td ${cell}>${escapeHtml(listing.rent)}</td>
+      <td ${cell}>${escapeHtml(listing.common_fee)}</td>
+    </tr>${listing.detail ? `
+    <tr>
+      <td ${cell} colspan="7">${renderDetail(listing.detail, index)}</td>
+    </tr>` : ''}`).join('');
+
+  return `
+  <table style="border-collapse: collapse; font-size: 13px;">
+    <tr>
+      <th ${cell}>住宅名</th><th ${cell}>区市町村</th><th ${cell}>間取り</th><th ${cell}>床面積</th><th ${cell}>階</th><th ${cell}>家賃</th><th ${cell}>共益費</th>
+    </tr>${rows}
+  </table>`;
+}
+
+/**
+ * 物件の詳細ページの情報をHTMLにする
+ */
+function renderDetail(detail: ListingDetail, index: number): string {
+  const items: [string, string][] = [
+    ...(detail.address ? [['所在地', detail.address] as [string, string]] : []),
+    ...Object.entries(detail.rent_breakdown),
+    ...(detail.application_deadline ? [['申込期限', detail.application_deadline] as [string, string]] : []),
+    ...(detail.notes ? [['備考', detail.notes] as [string, string]] : []),
+  ];
+
+  const list = items
+    .map(([label, value]) => `<div><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value).replace(/\n/g, '<br>')}</div>`)
+    .join('');
+  const floorPlan = detail.floor_plan_path
+    ? `<div><img src="cid:${floorPlanCid(index)}" alt="間取り図" style="max-width: 320px; margin-top: 4px;"></div>`
+    : '';
+
+  return `${list}${floorPlan}`;
+}
@@ -1,61 +1,138 @@
-import { loadConfig } from './config';
-import { searchAvailableProperty } from './scraper';
-import { sendNotification } from './notifier';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { loadConfig, maskSecrets, type Config, type ConfigChangeSource, type SearchProfile } from './config';
+import { searchAvailableProperty, type Listing, type ScrapeResult, type ScrapeRun, type ScrapeStep, type FailureArtifacts } from './scraper';
+import { sendNotification, buildFoundMessage, buildSiteChangedMessage, buildHealthMessage, type ChannelResult, type NotificationMessage } from './notifier';
+import { diffListings, markSeen } from './seen';
+import { enqueueNotification } from './outbox';
+import { broadcast } from './events';
+import { shutdownBrowser } from './browser';
+import { addLog, type LogEntry } from './history';
+import { nextRunTime, isQuiet, intervalAt, skipQuietHours } from './schedule';
+import { recordCheck, type CheckOutcome } from './metrics';
+import { runExclusive, getCheckState, CheckCancelledError, type CheckState } from './runner';
+import { createJob, runJob, markJobRunning, type Job } from './jobs';
+import { writeFileSync } from 'fs';
 import { join } from 'path';
 
+export interface ProfileStatus {
+  isRunning: boolean;
+  nextRunAt?: string; // 次回の実行予定時刻
+  lastCheckTime?: string;
+  lastResult?: string;
+  totalChecks: number;
+  failureStreak?: number; // このプロファイルが続けて失敗したチェックの回数（成功で0に戻る）
+  backoffSeconds?: number; // 失敗が続いているために延ばしている監視間隔
+}
+
 export interface WatcherStatus {
   isRunning: boolean;
+  nextRunAt?: string; // 全プロファイルで最も早い次回の実行予定時刻
   lastCheckTime?: string;
   lastResult?: string;
   totalChecks: number;
+  startedAt?: string; // 監視を開始した日時
+  failureStreak: number; // プロファイルごとの続けて失敗したチェックの回数のうち最大のもの
+  backoffSeconds?: number; // 失敗が続いているために延ばしている監視間隔（プロファイルごとの最大）
+  circuitOpen: boolean; // いずれかのプロファイルの失敗が続いて異常として通知済みか
+  circuitOpenedAt?: string;
+  lastSuccessTime?: string; // 最後にチェックが成功した日時
+  profiles: Record<string, ProfileStatus>; // 検索プロファイルごとの状態
+  check?: CheckState; // 実行中・順番待ちのチェック（getStatus で取得した場合のみ）
 }
 
-export interface ProgressEvent {
-  step: string;
+// 1回のチェックの結果
+export interface CheckResult {
+  profile: string;
+  outcome: CheckOutcome;
   message: string;
+  listings?: Listing[];
+  screenshotPath?: string;
+  error?: string;
+  steps?: ScrapeStep[]; // スクレイピングの手順ごとの所要時間
+  artifacts?: FailureArtifacts; // エラーの時点で保存したファイル
 }
 
-// WebSocketブロードキャスト用のコールバック
-let broadcastCallback: ((message: any) => void) | null = null;
+// 通知の種類
+type DeliveryKind = 'found' | 'site_changed' | 'health';
 
-export function setBroadcastCallback(callback: (message: any) => void): void {
-  broadcastCallback = callback;
+// 通知の送信結果
+interface Delivery {
+  channelResults: ChannelResult[];
+  notifyText: string; // ログなどに載せる送信結果の説明
+  error?: string; // 送信できなかった場合のエラー
 }
 
-function broadcast(message: any): void {
-  if (broadcastCallback) {
-    broadcastCallback(message);
-  }
-}
+const DELIVERY_LABELS: Record<DeliveryKind, string> = {
+  found: '空き物件',
+  site_changed: 'ページ構成の変更',
+  health: '監視の異常・復旧',
+};
 
-export interface LogEntry {
-  timestamp: string;
+export interface ProgressEvent {
+  step: string;
   message: string;
-  found: boolean;
-  screenshotPath?: string;
+  profile?: string;
 }
 
 const STATUS_FILE = join(process.cwd(), 'logs', 'status.json');
-const LOG_FILE = join(process.cwd(), 'logs', 'history.json');
 
-let watcherInterval: NodeJS.Timeout | null = null;
+// 検索プロファイル名 → 次回実行のタイマー
+const profileTimers = new Map<string, NodeJS.Timeout>();
+// チェックを実行中の検索プロファイル名（実行後に最新の設定で次回を予約するため、設定の変更時に予約し直さない）
+const checkingProfiles = new Set<string>();
+// 監視中の設定（設定の変更時に、どのプロファイルの監視間隔が変わったかを比べるため）
+let watchedConfig: Config | null = null;
+// ページ構成の変更を通知済みか（同じ変更で毎回通知しないよう、想定どおりのページに戻るまで記録する）
+let siteChangeNotified = false;
 let currentStatus: WatcherStatus = {
   isRunning: false,
   totalChecks: 0,
+  failureStreak: 0,
+  circuitOpen: false,
+  profiles: {},
 };
 
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_MAX_BACKOFF_SECONDS = 60 * 60;
+
+/**
+ * プロファイルごとの状態を取得（なければ作成）
+ */
+function profileStatus(name: string): ProfileStatus {
+  currentStatus.profiles[name] ??= { isRunning: false, totalChecks: 0 };
+  return currentStatus.profiles[name];
+}
+
 /**
  * 監視を開始する
+ * 有効な検索プロファイルごとに、それぞれの監視スケジュールで定期実行する
  */
 export function startWatcher(): void {
-  if (watcherInterval) {
+  if (profileTimers.size > 0) {
     console.log('監視は既に実行中です');
     return;
   }
 
+  const config = loadConfig();
+  const profiles = config.searches.filter(profile => profile.enabled);
+  if (profiles.length === 0) {
+    throw new Error('有効な検索プロファイルがありません');
+  }
+
   console.log('監視を開始します...');
+  watchedConfig = config;
   currentStatus.isRunning = true;
+  currentStatus.startedAt = new Date().toISOString();
+
+  for (const profile of profiles) {
+    const intervalSeconds = profile.interval_seconds ?? config.interval_seconds;
+    const schedule = profile.schedule ?? config.schedule;
+    console.log(`[${profile.name}] ${schedule?.rules?.length ? 'スケジュールに従って' : `${intervalSeconds}秒間隔で`}監視します`);
+    profileStatus(profile.name).isRunning = true;
+
+    // 停止時間帯でなければ即座に1回実行
+    scheduleNext(profile.name, !isQuiet(new Date(), schedule));
+  }
+
   saveStatus();
 
   // ステータス更新をブロードキャスト
@@ -63,30 +140,345 @@ export function startWatcher(): void {
     type: 'status_update',
     data: getStatus(),
   });
+}
+
+/**
+ * 次回のチェックを予約する
+ * 設定は毎回読み込み直すため、スケジュールの変更は次回の予約から反映される
+ */
+function scheduleNext(name: string, immediate: boolean = false, from: Date = new Date()): void {
+  let delay = 0;
 
-  // 即座に1回実行
-  executeCheck();
+  if (!immediate) {
+    try {
+      const config = loadConfig();
+      const profile = config.searches.find(search => search.name === name);
+      const schedule = profile?.schedule ?? config.schedule;
+      const nextRun = nextRunTime(from, schedule, profile?.interval_seconds ?? config.interval_seconds);
+      delay = Math.max(nextRun.getTime() - Date.now(), 0);
 
-  // 定期実行を設定
-  const config = loadConfig();
-  watcherInterval = setInterval(() => {
-    executeCheck();
-  }, config.interval_seconds * 1000);
+      // 失敗が続いている間は、監視間隔を失敗の回数に応じて延ばす（指数バックオフ）
+      // 延ばした時刻が停止時間帯に入る場合は、停止時間帯の終わりまで待つ
+      const backoffSeconds = backoffFor(config, name);
+      if (backoffSeconds * 1000 > delay) {
+        delay = Math.max(skipQuietHours(new Date(Date.now() + backoffSeconds * 1000), schedule).getTime() - Date.now(), 0);
+      }
+    } catch (error) {
+      console.error(`[${name}] 次回の実行時刻を決められないため、監視を停止します:`, error);
+      stopProfile(name);
+      return;
+    }
+  }
+
+  const timer = setTimeout(async () => {
+    checkingProfiles.add(name);
+    try {
+      const job = createJob('scheduled', name);
+      await runJob(job, async () => {
+        const result = await executeCheck(name, job.id);
+        return result ? [result] : [];
+      });
+    } finally {
+      checkingProfiles.delete(name);
+    }
+    // チェック中に停止・再開されていなければ次回を予約する
+    if (profileTimers.get(name) === timer) {
+      scheduleNext(name);
+    }
+  }, delay);
+  profileTimers.set(name, timer);
+
+  profileStatus(name).nextRunAt = new Date(Date.now() + delay).toISOString();
+  updateNextRunAt();
+  console.log(`[${name}] 次回の実行予定: ${new Date(Date.now() + delay).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`);
+
+  broadcast({
+    type: 'status_update',
+    data: getStatus(),
+  });
+}
+
+/**
+ * 変更された設定を実行中の監視に反映する
+ * 追加・有効にしたプロファイルは監視を始め、削除・無効にしたプロファイルは止める
+ * 監視間隔・スケジュールを変えたプロファイルは、前回のチェックからの間隔で次回を予約し直す
+ * 検索条件はチェックのたびに読み込み直すため、次回のチェックから反映される
+ */
+export function applyConfig(config: Config, source: ConfigChangeSource): void {
+  if (currentStatus.isRunning && watchedConfig) {
+    const previous = watchedConfig;
+    const timing = (settings: Config, profile: SearchProfile | undefined) => JSON.stringify([
+      profile?.interval_seconds ?? settings.interval_seconds,
+      profile?.schedule ?? settings.schedule,
+    ]);
+
+    // 先に追加分を始める（全て入れ替えた場合に、途中で監視全体が止まらないようにする）
+    for (const profile of config.searches.filter(search => search.enabled)) {
+      if (!profileTimers.has(profile.name)) {
+        console.log(`[${profile.name}] 設定の変更により監視を開始します`);
+        profileStatus(profile.name).isRunning = true;
+        scheduleNext(profile.name, !isQuiet(new Date(), profile.schedule ?? config.schedule));
+        continue;
+      }
+
+      const before = previous.searches.find(search => search.name === profile.name);
+      if (checkingProfiles.has(profile.name) || timing(previous, before) === timing(config, profile)) {
+        continue;
+      }
+      console.log(`[${profile.name}] 監視間隔の変更を反映します`);
+      clearTimeout(profileTimers.get(profile.name));
+      const lastCheckTime = profileStatus(profile.name).lastCheckTime;
+      scheduleNext(profile.name, false, lastCheckTime ? new Date(lastCheckTime) : new Date());
+    }
+
+    watchedConfig = config;
+    for (const name of [...profileTimers.keys()]) {
+      const profile = config.searches.find(search => search.name === name);
+      if (!profile?.enabled) {
+        stopProfile(name);
+      }
+    }
+  }
+
+  // 削除したプロファイルの状態は残さない
+  for (const name of Object.keys(currentStatus.profiles)) {
+    if (!config.searches.some(search => search.name === name)) {
+      delete currentStatus.profiles[name];
+    }
+  }
+  updateNextRunAt();
+  saveStatus();
+
+  console.log(`設定の変更を反映しました（${source === 'file' ? 'config.yaml の編集' : '画面からの保存'}）`);
+  broadcast({
+    type: 'config_updated',
+    data: { source, config: maskSecrets(config) },
+  });
+  broadcast({
+    type: 'status_update',
+    data: getStatus(),
+  });
+}
+
+/**
+ * プロファイルの現在の監視間隔（プロファイルの interval_seconds・スケジュールのルールを反映）
+ */
+function profileInterval(config: Config, name: string): number {
+  const profile = config.searches.find(search => search.name === name);
+  return intervalAt(new Date(), profile?.schedule ?? config.schedule, profile?.interval_seconds ?? config.interval_seconds);
+}
+
+/**
+ * プロファイルが続けて失敗した回数に応じた監視間隔（失敗していなければ0）
+ * 異常とみなす回数に達した後は上限の間隔でチェックを続け、復旧を確認する
+ */
+function backoffFor(config: Config, name: string): number {
+  const failureStreak = profileStatus(name).failureStreak ?? 0;
+  if (failureStreak === 0) {
+    return 0;
+  }
+
+  const intervalSeconds = profileInterval(config, name);
+  const maxSeconds = Math.max(config.circuit_breaker?.max_backoff_seconds ?? DEFAULT_MAX_BACKOFF_SECONDS, intervalSeconds);
+  if (failureStreak >= (config.circuit_breaker?.failure_threshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+    return maxSeconds;
+  }
+  return Math.min(intervalSeconds * 2 ** failureStreak, maxSeconds);
+}
+
+/**
+ * チェックの成功・失敗をプロファイルごとに記録し、監視全体が異常になった場合・復旧した場合に通知する
+ * 監視間隔は失敗したプロファイルだけ延ばす
+ */
+async function recordOutcome(config: Config, profileName: string, success: boolean, error?: string): Promise<void> {
+  const status = profileStatus(profileName);
+
+  if (success) {
+    currentStatus.lastSuccessTime = new Date().toISOString();
+    status.failureStreak = 0;
+    delete status.backoffSeconds;
+  } else {
+    status.failureStreak = (status.failureStreak ?? 0) + 1;
+    status.backoffSeconds = backoffFor(config, profileName);
+    console.log(`[${profileName}] チェックが${status.failureStreak}回続けて失敗しました（監視間隔を${status.backoffSeconds}秒に延ばします）`);
+  }
+
+  await updateHealth(config, error);
+}
+
+/**
+ * プロファイルごとの失敗の状態から監視全体の状態を更新する
+ * いずれかのプロファイルが failure_threshold 回続けて失敗したら異常、そのようなプロファイルがなくなったら復旧として通知する
+ */
+async function updateHealth(config: Config, error?: string): Promise<void> {
+  const threshold = config.circuit_breaker?.failure_threshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const profiles = Object.values(currentStatus.profiles);
+
+  currentStatus.failureStreak = Math.max(0, ...profiles.map(status => status.failureStreak ?? 0));
+  const backoffSeconds = Math.max(0, ...profiles.map(status => status.backoffSeconds ?? 0));
+  if (backoffSeconds > 0) {
+    currentStatus.backoffSeconds = backoffSeconds;
+  } else {
+    delete currentStatus.backoffSeconds;
+  }
+
+  const failing = Object.entries(currentStatus.profiles)
+    .filter(([, status]) => (status.failureStreak ?? 0) >= threshold)
+    .map(([name]) => name);
+
+  if (!currentStatus.circuitOpen && failing.length > 0) {
+    currentStatus.circuitOpen = true;
+    currentStatus.circuitOpenedAt = new Date().toISOString();
+    console.error(`[${failing.join(', ')}] チェックが${threshold}回以上続けて失敗したため、異常として通知します`);
+    await notifyHealth(config, false, error);
+  } else if (currentStatus.circuitOpen && failing.length === 0) {
+    currentStatus.circuitOpen = false;
+    delete currentStatus.circuitOpenedAt;
+    console.log('続けて失敗していたプロファイルのチェックが成功したため、監視の異常から復旧しました');
+    await notifyHealth(config, true, error);
+  }
+}
+
+/**
+ * 監視の異常・復旧を各通知チャネルに通知する
+ */
+async function notifyHealth(config: Config, healthy: boolean, error: string | undefined): Promise<void> {
+  broadcast({
+    type: 'notification',
+    data: healthy
+      ? { type: 'success', message: '監視が復旧しました' }
+      : { type: 'error', message: `チェックが${currentStatus.failureStreak}回続けて失敗しています` },
+  });
+
+  await deliver(
+    config,
+    'health',
+    () => buildHealthMessage(config.recipients, healthy, currentStatus.failureStreak, error),
+    ({ notifyText }) => ({
+      message: healthy
+        ? `監視が復旧しました。${notifyText}。`
+        : `チェックが${currentStatus.failureStreak}回続けて失敗しています。${notifyText}。`,
+      found: false,
+    })
+  );
+}
+
+/**
+ * 通知を各通知チャネルに送信し、送信結果をログに記録する
+ * 送信に失敗したチャネルは再送信キューに追加し、後で再送信する
+ * describe で送信結果に応じたログのメッセージなどを決める
+ */
+async function deliver(
+  config: Config,
+  kind: DeliveryKind,
+  build: () => NotificationMessage,
+  describe: (delivery: Delivery) => Omit<LogEntry, 'timestamp' | 'error' | 'notifications'>,
+  jobId?: string
+): Promise<Delivery> {
+  let delivery: Delivery;
+
+  try {
+    const message = build();
+    const channelResults = await sendNotification(config, message);
+
+    const failedChannels = channelResults.filter(channelResult => !channelResult.success);
+    if (failedChannels.length > 0) {
+      enqueueNotification(message, failedChannels);
+    }
+    delivery = {
+      channelResults,
+      notifyText: failedChannels.length === 0
+        ? '通知完了'
+        : failedChannels.length === channelResults.length
+          ? '通知の送信に失敗したため再送信待ちです'
+          : `通知完了（${failedChannels.map(channelResult => channelResult.channel).join(', ')} は再送信待ち）`,
+    };
+  } catch (notifyError) {
+    console.error(`${DELIVERY_LABELS[kind]}の通知に失敗しました:`, notifyError);
+    const error = notifyError instanceof Error ? notifyError.message : String(notifyError);
+    delivery = { channelResults: [], notifyText: `通知の送信に失敗: ${error}`, error };
+  }
+
+  const logEntry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    ...describe(delivery),
+    error: delivery.error,
+    notifications: delivery.channelResults,
+  };
+  addLog(logEntry);
+
+  broadcast({
+    type: 'log_added',
+    jobId,
+    data: logEntry,
+  });
+  return delivery;
+}
+
+/**
+ * 全プロファイルで最も早い次回の実行予定時刻を更新する
+ */
+function updateNextRunAt(): void {
+  const times = Object.values(currentStatus.profiles)
+    .filter(status => status.isRunning && status.nextRunAt)
+    .map(status => status.nextRunAt!)
+    .sort();
+  currentStatus.nextRunAt = times[0];
+}
+
+/**
+ * 検索プロファイル1つの監視を停止する
+ * 全てのプロファイルが停止した場合は監視全体を停止状態にする
+ */
+function stopProfile(name: string): void {
+  const timer = profileTimers.get(name);
+  if (timer) {
+    clearTimeout(timer);
+    profileTimers.delete(name);
+  }
+  const status = profileStatus(name);
+  status.isRunning = false;
+  delete status.nextRunAt;
+  updateNextRunAt();
+  console.log(`[${name}] 監視を停止しました`);
+
+  if (profileTimers.size === 0) {
+    stopWatcher();
+    return;
+  }
+
+  saveStatus();
+  broadcast({
+    type: 'status_update',
+    data: getStatus(),
+  });
 }
 
 /**
  * 監視を停止する
  */
 export function stopWatcher(): void {
-  if (watcherInterval) {
-    clearInterval(watcherInterval);
-    watcherInterval = null;
+  for (const timer of profileTimers.values()) {
+    clearTimeout(timer);
   }
+  profileTimers.clear();
+  watchedConfig = null;
 
   currentStatus.isRunning = false;
+  delete currentStatus.nextRunAt;
+  delete currentStatus.startedAt;
+  for (const status of Object.values(currentStatus.profiles)) {
+    status.isRunning = false;
+    delete status.nextRunAt;
+  }
   saveStatus();
   console.log('監視を停止しました');
 
+  // 使い回しているブラウザを終了（チェック中の場合は終わってから閉じる）
+  shutdownBrowser().catch(error => {
+    console.error('ブラウザの終了に失敗:', error);
+  });
+
   // ステータス更新をブロードキャスト
   broadcast({
     type: 'status_update',
@@ -95,30 +487,116 @@ export function stopWatcher(): void {
 }
 
 /**
- * 1回のチェックを実行
+ * JKKねっとのページ構成が変わった可能性があることを各通知チャネルに通知する
+ * 空き物件の通知とは区別し、想定どおりのページに戻るまでは1回だけ通知する
+ */
+async function notifySiteChanged(
+  config: Config,
+  profile: SearchProfile,
+  error: string | undefined,
+  screenshotPath: string | undefined
+): Promise<void> {
+  broadcast({
+    type: 'notification',
+    data: { type: 'error', message: `[${profile.name}] JKKねっとのページ構成が変わった可能性があります`, profile: profile.name },
+  });
+
+  if (siteChangeNotified) {
+    return;
+  }
+  siteChangeNotified = true;
+
+  const recipients = profile.recipients
+    ? { ...config.recipients, to: profile.recipients }
+    : config.recipients;
+  await deliver(
+    config,
+    'site_changed',
+    () => buildSiteChangedMessage(recipients, profile, error, screenshotPath),
+    ({ notifyText }) => ({
+      message: `JKKねっとのページ構成が変わった可能性があります。${notifyText}。`,
+      found: false,
+      profile: profile.name,
+      screenshotPath,
+    })
+  );
+}
+
+/**
+ * 検索プロファイル1つ分のチェックを実行
+ * 他のチェックの実行中は check_overlap の設定に従って待つかスキップする
+ * プロファイルが見つからないか無効の場合・スキップした場合はチェックせず undefined を返す
+ */
+async function executeCheck(profileName: string, jobId?: string): Promise<CheckResult | undefined> {
+  try {
+    return await runExclusive(profileName, profileName, (signal, jobIds) => {
+      return performCheck(profileName, signal, startJobs(jobIds));
+    }, jobId);
+  } catch (error) {
+    if (error instanceof CheckCancelledError) {
+      return { profile: profileName, outcome: 'cancelled', message: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * チェックの結果を待っているジョブを実行中にする
+ * まとめられたジョブは最初のジョブのチェックの結果を使うため、そのIDを記録する（チェック中のイベントは最初のジョブのIDで送る）
+ */
+function startJobs(jobIds: string[]): string | undefined {
+  const [jobId, ...coalesced] = jobIds;
+  markJobRunning(jobId);
+  for (const id of coalesced) {
+    markJobRunning(id, jobId);
+  }
+  return jobId;
+}
+
+/**
+ * 検索プロファイル1つ分のチェックの本体（signal で中止する）
+ * jobId を指定すると、WebSocket のイベントにジョブIDを付ける
  */
-async function executeCheck(): Promise<void> {
+async function performCheck(profileName: string, signal: AbortSignal, jobId?: string): Promise<CheckResult | undefined> {
   const startTime = new Date();
-  console.log(`[${startTime.toISOString()}] チェックを開始...`);
+  console.log(`[${startTime.toISOString()}] [${profileName}] チェックを開始...`);
 
   // 進行状況を通知
   broadcast({
     type: 'progress',
-    data: { step: 'start', message: 'チェックを開始しています...' },
+    jobId,
+    data: { step: 'start', message: 'チェックを開始しています...', profile: profileName },
   });
 
   try {
     const config = loadConfig();
+    const profile = config.searches.find(search => search.name === profileName);
+
+    if (!profile || !profile.enabled) {
+      // 設定から削除・無効化されたプロファイルは監視を停止する
+      console.log(`[${profileName}] 検索プロファイルが見つからないか無効のため、スキップします`);
+      if (profileTimers.has(profileName)) {
+        stopProfile(profileName);
+      }
+      return undefined;
+    }
 
     broadcast({
       type: 'progress',
-      data: { step: 'searching', message: '物件を検索中...' },
+      jobId,
+      data: { step: 'searching', message: '物件を検索中...', profile: profileName },
     });
 
-    const result = await searchAvailableProperty(config.search, config.headless);
+    const result = await searchAvailableProperty(profile, config.headless, config.scraper, scrapeRun(profileName, signal, jobId));
+
+    if (result.cancelled) {
+      return cancelledCheck(profileName, startTime, jobId, result);
+    }
 
-    currentStatus.lastCheckTime = startTime.toISOString();
-    currentStatus.lastResult = result.message;
+    const status = profileStatus(profileName);
+    status.lastCheckTime = currentStatus.lastCheckTime = startTime.toISOString();
+    status.lastResult = currentStatus.lastResult = `[${profileName}] ${result.message}`;
+    status.totalChecks++;
     currentStatus.totalChecks++;
 
     // ログに記録
@@ -126,6 +604,11 @@ async function executeCheck(): Promise<void> {
       timestamp: startTime.toISOString(),
       message: result.message,
       found: result.found,
+      profile: profileName,
+      error: result.error,
+      listings: result.listings,
+      steps: result.steps,
+      artifacts: result.artifacts,
       screenshotPath: result.screenshotPath,
     };
     addLog(logEntry);
@@ -133,61 +616,108 @@ async function executeCheck(): Promise<void> {
     // ログ追加をブロードキャスト
     broadcast({
       type: 'log_added',
+      jobId,
       data: logEntry,
     });
 
-    if (result.found && result.screenshotPath) {
-      // 物件が見つかった場合、メール送信
+    const outcome = checkOutcome(result);
+    recordCheck(
+      profileName,
+      outcome,
+      (Date.now() - startTime.getTime()) / 1000,
+      result.found ? result.listings?.length ?? 1 : 0
+    );
+    await recordOutcome(config, profileName, result.success, result.error);
+
+    if (result.pageShape === 'unknown') {
+      await notifySiteChanged(config, profile, result.error, result.screenshotPath);
+    } else if (result.pageShape === 'results' || result.pageShape === 'no_results') {
+      siteChangeNotified = false;
+    }
+
+    // 新着のみ通知するモードでは、物件一覧を読み取れた場合に通知済みの物件と比較する
+    // （一覧を読み取れなかった場合は比較できないため、従来どおり通知して停止する）
+    const notifyNewOnly = config.watch_mode === 'notify_new' && !!result.listings?.length;
+    let listingsToNotify = result.listings;
+
+    if (notifyNewOnly && result.listings) {
+      const diff = diffListings(profileName, result.listings);
+      listingsToNotify = [...diff.added, ...diff.changed];
+
+      if (listingsToNotify.length === 0) {
+        console.log('新着・変更のある物件はありません');
+        markSeen(profileName, result.listings);
+        status.lastResult = currentStatus.lastResult = `[${profileName}] ${result.message}（新着なし）`;
+      } else {
+        console.log(`新着${diff.added.length}件、変更${diff.changed.length}件の物件があります`);
+      }
+    } else if (config.watch_mode === 'notify_new' && result.success && !result.found) {
+      // 該当なしになった場合は通知済みの物件をリセットし、再掲載時に改めて通知する
+      markSeen(profileName, []);
+    }
+
+    if (result.found && result.screenshotPath && (!notifyNewOnly || listingsToNotify?.length)) {
+      // 物件が見つかった場合、各通知チャネルに通知
       broadcast({
         type: 'progress',
-        data: { step: 'found', message: '物件が見つかりました！メール送信中...' },
+        jobId,
+        data: { step: 'found', message: '物件が見つかりました！通知を送信中...', profile: profileName },
       });
 
       broadcast({
         type: 'notification',
-        data: { type: 'success', message: '空き物件が見つかりました！' },
+        jobId,
+        data: {
+          type: 'success',
+          message: notifyNewOnly ? `[${profileName}] 新着の空き物件が見つかりました！（${listingsToNotify?.length}件）` : `[${profileName}] 空き物件が見つかりました！`,
+          profile: profileName,
+        },
       });
 
-      try {
-        await sendNotification(config.gmail, config.recipients, result.screenshotPath);
-
-        // メール送信成功をログに追加
-        const emailLogEntry = {
-          timestamp: new Date().toISOString(),
-          message: 'メール送信完了。監視を停止しました。',
-          found: true,
-        };
-        addLog(emailLogEntry);
-
-        broadcast({
-          type: 'log_added',
-          data: emailLogEntry,
-        });
-
-        // 監視を停止
-        stopWatcher();
-        currentStatus.lastResult = '空き物件が見つかりました。メール送信完了。監視を停止しました。';
-      } catch (emailError) {
-        // メール送信失敗をログに記録
-        console.error('メール送信に失敗しました:', emailError);
-        const errorLogEntry = {
-          timestamp: new Date().toISOString(),
-          message: `メール送信に失敗: ${emailError instanceof Error ? emailError.message : String(emailError)}`,
+      // プロファイルに宛先があればそちらを使用
+      const recipients = profile.recipients
+        ? { ...config.recipients, to: profile.recipients }
+        : config.recipients;
+      const { screenshotPath } = result;
+      const watching = profileTimers.has(profileName);
+      const { notifyText, error: notifyError } = await deliver(
+        config,
+        'found',
+        () => buildFoundMessage(recipients, screenshotPath, listingsToNotify, profile, result.screenshotPaths?.slice(1)),
+        ({ notifyText, error }) => ({
+          message: error
+            ? notifyText
+            : notifyNewOnly
+              ? `新着物件${listingsToNotify?.length}件: ${notifyText}。監視を継続します。`
+              : `${notifyText}。${watching ? '監視を停止しました。' : ''}`,
           found: true,
-        };
-        addLog(errorLogEntry);
-
-        broadcast({
-          type: 'log_added',
-          data: errorLogEntry,
-        });
+          profile: profileName,
+          listings: notifyNewOnly ? listingsToNotify : undefined,
+        }),
+        jobId
+      );
 
+      if (notifyError) {
         broadcast({
           type: 'notification',
-          data: { type: 'error', message: 'メール送信に失敗しました' },
+          jobId,
+          data: { type: 'error', message: `[${profileName}] 通知の送信に失敗しました`, profile: profileName },
         });
 
-        currentStatus.lastResult = `空き物件が見つかりましたが、メール送信に失敗しました: ${emailError instanceof Error ? emailError.message : String(emailError)}`;
+        status.lastResult = currentStatus.lastResult = `[${profileName}] 空き物件が見つかりましたが、通知の送信に失敗しました: ${notifyError}`;
+      } else {
+        if (notifyNewOnly && result.listings) {
+          // 通知済みとして記録し、監視は継続する
+          markSeen(profileName, result.listings);
+          status.lastResult = currentStatus.lastResult = `[${profileName}] 新着の空き物件が見つかりました（${listingsToNotify?.length}件）。${notifyText}。監視を継続します。`;
+        } else if (watching) {
+          // このプロファイルの監視を停止
+          stopProfile(profileName);
+          status.lastResult = currentStatus.lastResult = `[${profileName}] 空き物件が見つかりました。${notifyText}。監視を停止しました。`;
+        } else {
+          // 監視していない場合（check --once・監視停止中の手動チェック）は止めるものがない
+          status.lastResult = currentStatus.lastResult = `[${profileName}] 空き物件が見つかりました。${notifyText}。`;
+        }
       }
     }
 
@@ -201,33 +731,56 @@ async function executeCheck(): Promise<void> {
 
     broadcast({
       type: 'progress',
-      data: { step: 'complete', message: 'チェック完了' },
+      jobId,
+      data: { step: 'complete', message: 'チェック完了', profile: profileName },
     });
 
-    console.log(`結果: ${result.message}`);
+    console.log(`[${profileName}] 結果: ${result.message}`);
+
+    return {
+      profile: profileName,
+      outcome,
+      message: result.message,
+      listings: result.listings,
+      screenshotPath: result.screenshotPath,
+      error: result.error,
+      steps: result.steps,
+      artifacts: result.artifacts,
+    };
 
   } catch (error) {
-    console.error('チェック中にエラーが発生しました:', error);
+    console.error(`[${profileName}] チェック中にエラーが発生しました:`, error);
 
     // エラーをログに記録
     const errorLogEntry = {
       timestamp: new Date().toISOString(),
       message: `エラー: ${error instanceof Error ? error.message : String(error)}`,
       found: false,
+      profile: profileName,
+      error: error instanceof Error ? error.message : String(error),
     };
     addLog(errorLogEntry);
 
     broadcast({
       type: 'log_added',
+      jobId,
       data: errorLogEntry,
     });
 
     broadcast({
       type: 'notification',
-      data: { type: 'error', message: 'チェック中にエラーが発生しました' },
+      jobId,
+      data: { type: 'error', message: `[${profileName}] チェック中にエラーが発生しました`, profile: profileName },
     });
 
-    currentStatus.lastResult = `エラー: ${error instanceof Error ? error.message : String(error)}`;
+    profileStatus(profileName).lastResult = currentStatus.lastResult = `[${profileName}] エラー: ${error instanceof Error ? error.message : String(error)}`;
+    recordCheck(profileName, 'error', (Date.now() - startTime.getTime()) / 1000);
+
+    try {
+      await recordOutcome(loadConfig(), profileName, false, error instanceof Error ? error.message : String(error));
+    } catch (recordError) {
+      console.error('チェック結果の記録に失敗:', recordError);
+    }
     saveStatus();
 
     broadcast({
@@ -237,16 +790,80 @@ async function executeCheck(): Promise<void> {
 
     broadcast({
       type: 'progress',
-      data: { step: 'error', message: 'エラーが発生しました' },
+      jobId,
+      data: { step: 'error', message: 'エラーが発生しました', profile: profileName },
     });
+
+    return {
+      profile: profileName,
+      outcome: 'error',
+      message: errorLogEntry.message,
+      error: errorLogEntry.error,
+    };
   }
 }
 
+/**
+ * 中止したチェックを記録する（失敗としては数えない）
+ */
+function cancelledCheck(profileName: string, startTime: Date, jobId?: string, result?: ScrapeResult): CheckResult {
+  const logEntry = {
+    timestamp: startTime.toISOString(),
+    message: 'チェックを中止しました',
+    found: false,
+    profile: profileName,
+    steps: result?.steps,
+    artifacts: result?.artifacts,
+  };
+  addLog(logEntry);
+  broadcast({
+    type: 'log_added',
+    jobId,
+    data: logEntry,
+  });
+
+  profileStatus(profileName).lastResult = currentStatus.lastResult = `[${profileName}] チェックを中止しました`;
+  recordCheck(profileName, 'cancelled', (Date.now() - startTime.getTime()) / 1000);
+  saveStatus();
+
+  broadcast({
+    type: 'status_update',
+    data: getStatus(),
+  });
+  broadcast({
+    type: 'progress',
+    jobId,
+    data: { step: 'cancelled', message: 'チェックを中止しました', profile: profileName },
+  });
+
+  return { profile: profileName, outcome: 'cancelled', message: logEntry.message, steps: logEntry.steps, artifacts: logEntry.artifacts };
+}
+
+/**
+ * スクレイピングの手順が終わるたびに画面に送る
+ */
+function scrapeRun(profileName: string, signal: AbortSignal, jobId?: string): ScrapeRun {
+  return {
+    signal,
+    onStep: step => broadcast({
+      type: 'scrape_step',
+      jobId,
+      data: { profile: profileName, ...step },
+    }),
+  };
+}
+
 /**
  * 現在のステータスを取得
  */
 export function getStatus(): WatcherStatus {
-  return { ...currentStatus };
+  return {
+    ...currentStatus,
+    check: getCheckState(),
+    profiles: Object.fromEntries(
+      Object.entries(currentStatus.profiles).map(([name, status]) => [name, { ...status }])
+    ),
+  };
 }
 
 /**
@@ -261,79 +878,152 @@ function saveStatus(): void {
 }
 
 /**
- * ログエントリを追加
+ * 手動で1回チェックを実行（監視開始なし）
+ * プロファイル名を省略した場合は有効な全プロファイルを順番にチェックする
  */
-export function addLog(entry: LogEntry): void {
-  try {
-    let logs: LogEntry[] = [];
-
-    if (existsSync(LOG_FILE)) {
-      const content = readFileSync(LOG_FILE, 'utf8');
-      logs = JSON.parse(content);
-    }
+export async function runOnce(profileName?: string, jobId?: string): Promise<CheckResult[]> {
+  console.log('手動チェックを実行します...');
 
-    logs.unshift(entry); // 最新を先頭に
+  const config = loadConfig();
+  const profiles = config.searches.filter(profile =>
+    profile.enabled && (!profileName || profile.name === profileName)
+  );
+  if (profiles.length === 0) {
+    throw new Error(profileName ? `検索プロファイルが見つかりません: ${profileName}` : '有効な検索プロファイルがありません');
+  }
 
-    // 古いログをクリーンアップ
-    logs = cleanupOldLogs(logs);
+  const results: CheckResult[] = [];
+  for (const profile of profiles) {
+    const result = await executeCheck(profile.name, jobId);
+    if (result) {
+      results.push(result);
+    }
+    // 中止された場合は残りのプロファイルもチェックしない
+    if (result?.outcome === 'cancelled') {
+      break;
+    }
+  }
 
-    writeFileSync(LOG_FILE, JSON.stringify(logs, null, 2), 'utf8');
-  } catch (error) {
-    console.error('ログの保存に失敗:', error);
+  // 監視していない場合はブラウザを残しておく必要がないので終了する
+  if (!currentStatus.isRunning) {
+    await shutdownBrowser();
   }
+  return results;
 }
 
 /**
- * 古いログをクリーンアップ
- * ルール: 1日以前のログは削除（ただし、物件が見つかったログは保持）
+ * 手動チェックをジョブとして開始する（終了を待たずにジョブを返す）
  */
-function cleanupOldLogs(logs: LogEntry[]): LogEntry[] {
-  const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000; // 24時間前
+export function startCheckJob(profileName?: string): Job {
+  const job = createJob('manual', profileName);
+  runJob(job, () => runOnce(profileName, job.id));
+  return job;
+}
 
-  return logs.filter(log => {
-    const logTime = new Date(log.timestamp).getTime();
-    // 物件が見つかった場合は常に保持、それ以外は1日以内のみ
-    return log.found || logTime > oneDayAgo;
-  });
+/**
+ * 保存前の設定でのチェック（プレビュー）をジョブとして開始する（終了を待たずにジョブを返す）
+ * 通知の送信・監視の状態の更新はせず、実行履歴にだけ記録する
+ */
+export function startPreviewJob(config: Config): Job {
+  const job = createJob('preview');
+  runJob(job, () => runPreview(config, job.id));
+  return job;
 }
 
 /**
- * ログ履歴を取得
+ * 指定した設定で有効なプロファイルを順番にチェックする（プレビュー）
  */
-export function getLogs(limit: number = 20): LogEntry[] {
-  try {
-    if (!existsSync(LOG_FILE)) {
-      return [];
+async function runPreview(config: Config, jobId: string): Promise<CheckResult[]> {
+  const profiles = config.searches.filter(profile => profile.enabled);
+  if (profiles.length === 0) {
+    throw new Error('有効な検索プロファイルがありません');
+  }
+
+  const results: CheckResult[] = [];
+  for (const profile of profiles) {
+    // 設定がジョブごとに異なるため、他のジョブのプレビューとはまとめない
+    const result = await runExclusive(`preview:${jobId}:${profile.name}`, `${profile.name}（プレビュー）`, signal => {
+      markJobRunning(jobId);
+      return previewProfile(config, profile, signal, jobId);
+    }, jobId).catch(error => {
+      if (error instanceof CheckCancelledError) {
+        return { profile: profile.name, outcome: 'cancelled', message: error.message } satisfies CheckResult;
+      }
+      throw error;
+    });
+    if (result) {
+      results.push(result);
     }
+    if (result?.outcome === 'cancelled') {
+      break;
+    }
+  }
 
-    const content = readFileSync(LOG_FILE, 'utf8');
-    const logs: LogEntry[] = JSON.parse(content);
-    return logs.slice(0, limit);
-  } catch (error) {
-    console.error('ログの読み込みに失敗:', error);
-    return [];
+  // 監視していない場合はブラウザを残しておく必要がないので終了する
+  if (!currentStatus.isRunning) {
+    await shutdownBrowser();
   }
+  return results;
 }
 
 /**
- * 手動で1回チェックを実行（監視開始なし）
+ * プレビューで検索プロファイル1つ分をチェックする
  */
-export async function runOnce(): Promise<void> {
-  console.log('手動チェックを実行します...');
-  await executeCheck();
+async function previewProfile(config: Config, profile: SearchProfile, signal: AbortSignal, jobId: string): Promise<CheckResult> {
+  broadcast({
+    type: 'progress',
+    jobId,
+    data: { step: 'searching', message: '変更した設定で物件を検索中...', profile: profile.name },
+  });
+
+  const result = await searchAvailableProperty(profile, config.headless, config.scraper, scrapeRun(profile.name, signal, jobId));
+  if (result.cancelled) {
+    broadcast({
+      type: 'progress',
+      jobId,
+      data: { step: 'cancelled', message: 'チェックを中止しました', profile: profile.name },
+    });
+    return { profile: profile.name, outcome: 'cancelled', message: result.message, steps: result.steps, artifacts: result.artifacts };
+  }
+
+  const logEntry = {
+    timestamp: new Date().toISOString(),
+    message: result.message,
+    found: result.found,
+    profile: profile.name,
+    error: result.error,
+    listings: result.listings,
+    steps: result.steps,
+    artifacts: result.artifacts,
+    screenshotPath: result.screenshotPath,
+  };
+  addLog(logEntry);
+  broadcast({
+    type: 'log_added',
+    jobId,
+    data: logEntry,
+  });
+  broadcast({
+    type: 'progress',
+    jobId,
+    data: { step: 'complete', message: 'チェック完了', profile: profile.name },
+  });
+
+  return {
+    profile: profile.name,
+    outcome: checkOutcome(result),
+    message: result.message,
+    listings: result.listings,
+    screenshotPath: result.screenshotPath,
+    error: result.error,
+    steps: result.steps,
+    artifacts: result.artifacts,
+  };
 }
 
 /**
- * ログ履歴をクリア
+ * 検索結果をチェックの結果の種類に分ける
  */
-export function clearLogs(): void {
-  try {
-    if (existsSync(LOG_FILE)) {
-      writeFileSync(LOG_FILE, JSON.stringify([]), 'utf8');
-      console.log('ログ履歴をクリアしました');
-    }
-  } catch (error) {
-    console.error('ログのクリアに失敗:', error);
-    throw error;
-  }
-}
\ No newline at end of file
+function checkOutcome(result: ScrapeResult): CheckOutcome {
+  return result.pageShape === 'unknown' ? 'site_changed' : !result.success ? 'error' : result.found ? 'found' : 'not_found';
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  SESSION_COOKIE,
+  isAuthEnabled,
+  verifyPassword,
+  createSession,
+  deleteSession,
+  isAuthenticated,
+  isAllowedOrigin,
+  corsHeaders,
+} from '../src/auth';
+import type { AuthConfig } from '../src/config';
+
+const auth: AuthConfig = { password: 'secret', tokens: ['token-1', 'token-2'], allowed_origins: ['https://app.example.com'] };
+
+// Set-Cookie の値からセッションの Cookie を付けたリクエストを作る
+const requestWithSession = (setCookie: string): Request =>
+  new Request('http://localhost/api/status', { headers: { Cookie: `other=1; ${setCookie.split(';')[0]}` } });
+
+describe('ログインの設定', () => {
+  test('パスワードかAPIトークンがある場合だけログインが必要', () => {
+    expect(isAuthEnabled(undefined)).toBe(false);
+    expect(isAuthEnabled({ tokens: [] })).toBe(false);
+    expect(isAuthEnabled({ password: 'secret' })).toBe(true);
+    expect(isAuthEnabled({ tokens: ['token-1'] })).toBe(true);
+  });
+
+  test('ログインが不要な設定では全てのリクエストを通す', () => {
+    expect(isAuthenticated(new Request('http://localhost/api/status'), undefined)).toBe(true);
+  });
+
+  test('パスワードを照合する', () => {
+    expect(verifyPassword(auth, 'secret')).toBe(true);
+    expect(verifyPassword(auth, 'secret!')).toBe(false);
+    expect(verifyPassword({ tokens: ['token-1'] }, '')).toBe(false);
+  });
+});
+
+describe('セッション', () => {
+  test('作成したセッションの Cookie でログイン済みになる', () => {
+    const setCookie = createSession(auth);
+
+    expect(setCookie).toStartWith(`${SESSION_COOKIE}=`);
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain(`Max-Age=${7 * 24 * 60 * 60}`);
+    expect(isAuthenticated(requestWithSession(setCookie), auth)).toBe(true);
+    expect(isAuthenticated(new Request('http://localhost/api/status', { headers: { Cookie: `${SESSION_COOKIE}=unknown` } }), auth)).toBe(false);
+  });
+
+  test('削除したセッションは使えない', () => {
+    const request = requestWithSession(createSession(auth));
+
+    expect(deleteSession(request)).toContain('Max-Age=0');
+    expect(isAuthenticated(request, auth)).toBe(false);
+  });
+
+  test('有効期限が切れたセッションは使えない', () => {
+    const request = requestWithSession(createSession({ ...auth, session_hours: 0 }));
+    expect(isAuthenticated(request, auth)).toBe(false);
+  });
+});
+
+describe('APIトークン', () => {
+  const withToken = (token: string) => new Request('http://localhost/api/status', { headers: { Authorization: `Bearer ${token}` } });
+
+  test('設定されたトークンのいずれかと一致すれば通す', () => {
+    expect(isAuthenticated(withToken('token-2'), auth)).toBe(true);
+    expect(isAuthenticated(withToken('token-3'), auth)).toBe(false);
+    expect(isAuthenticated(withToken(''), auth)).toBe(false);
+  });
+
+  test('トークンが違う場合はセッションがあっても通さない', () => {
+    const request = new Request('http://localhost/api/status', {
+      headers: { Authorization: 'Bearer wrong', Cookie: createSession(auth).split(';')[0]! },
+    });
+    expect(isAuthenticated(request, auth)).toBe(false);
+  });
+});
+
+describe('オリジン', () => {
+  const fromOrigin = (origin?: string) => new Request('http://localhost:3000/api/config', {
+    headers: origin ? { Origin: origin, Host: 'localhost:3000' } : { Host: 'localhost:3000' },
+  });
+
+  test('Origin がない・同じオリジン・許可したオリジンのリクエストを許可する', () => {
+    expect(isAllowedOrigin(fromOrigin(), auth)).toBe(true);
+    expect(isAllowedOrigin(fromOrigin('http://localhost:3000'), auth)).toBe(true);
+    expect(isAllowedOrigin(fromOrigin('https://app.example.com'), auth)).toBe(true);
+    expect(isAllowedOrigin(fromOrigin('https://evil.example.com'), auth)).toBe(false);
+    expect(isAllowedOrigin(fromOrigin('null'), auth)).toBe(false);
+  });
+
+  test('許可したオリジンにだけ CORS のヘッダーを返す', () => {
+    expect(corsHeaders(fromOrigin('https://app.example.com'), auth)).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://app.example.com',
+      'Access-Control-Allow-Credentials': 'true',
+    });
+    expect(corsHeaders(fromOrigin('https://evil.example.com'), auth)).toEqual({ 'Vary': 'Origin' });
+  });
+});
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { addLog, clearLogs, deleteExpiredLogs, forgetFiles, queryLogs, type LogEntry, type LogKind } from '../src/history';
+import type { RetentionRule } from '../src/config';
+import type { Listing } from '../src/scraper';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listing: Listing = {
+  id: '0001:101:0303',
+  name: 'テストハイツ',
+  area: '新宿区',
+  madori: '2DK',
+  floor_area: '45.20㎡',
+  floor: '3',
+  rent: '85,000円',
+  common_fee: '3,200円',
+  detail: { rent_breakdown: { 家賃: '85,000円' }, floor_plan_path: 'logs/floorplan_1.png' },
+};
+
+// 日数前の日時でログを追加する
+const add = (entry: Partial<LogEntry> & { daysAgo?: number }): LogEntry => {
+  const { daysAgo = 0, ...fields } = entry;
+  const log: LogEntry = {
+    timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    message: '検索中(ヒットなし)...',
+    found: false,
+    ...fields,
+  };
+  addLog(log);
+  return log;
+};
+
+const noRules: Record<LogKind, RetentionRule> = { hits: {}, no_hits: {}, errors: {} };
+
+beforeEach(() => {
+  clearLogs();
+});
+
+describe('addLog・queryLogs', () => {
+  test('保存したログを新しい順に、関連する項目も含めて返す', () => {
+    add({ message: '1件目', profile: 'p1' });
+    const saved = add({
+      message: '空きが見つかりました',
+      found: true,
+      profile: 'p1',
+      listings: [listing],
+      notifications: [{ channel: 'email', success: true }, { channel: 'slack', success: false, error: 'timeout' }],
+      steps: [{ step: 'page_load', status: 'ok', started_at: new Date().toISOString(), duration_ms: 120 }],
+      screenshotPath: 'logs/property_1.png',
+    });
+
+    const { logs, next_cursor } = queryLogs();
+    expect(next_cursor).toBeNull();
+    expect(logs.map(log => log.message)).toEqual(['空きが見つかりました', '1件目']);
+    expect(logs[0]).toEqual({ ...saved, id: saved.id! });
+  });
+
+  test('next_cursor で古いログを順に取得する', () => {
+    for (let i = 1; i <= 5; i++) {
+      add({ message: `${i}件目` });
+    }
+
+    const first = queryLogs({ limit: 2 });
+    expect(first.logs.map(log => log.message)).toEqual(['5件目', '4件目']);
+    expect(first.next_cursor).toBe(first.logs[1]!.id!);
+
+    const second = queryLogs({ limit: 2, cursor: first.next_cursor! });
+    expect(second.logs.map(log => log.message)).toEqual(['3件目', '2件目']);
+
+    const last = queryLogs({ limit: 2, cursor: second.next_cursor! });
+    expect(last.logs.map(log => log.message)).toEqual(['1件目']);
+    expect(last.next_cursor).toBeNull();
+  });
+
+  test('件数がちょうど limit の場合は続きがない', () => {
+    add({ message: '1件目' });
+    add({ message: '2件目' });
+    expect(queryLogs({ limit: 2 }).next_cursor).toBeNull();
+  });
+
+  test('条件を組み合わせて絞り込む（カーソルとも組み合わせられる）', () => {
+    add({ message: 'p1 のエラー', profile: 'p1', error: 'タイムアウト' });
+    add({ message: 'p2 のエラー', profile: 'p2', error: 'タイムアウト' });
+    add({ message: 'p1 の空き', profile: 'p1', found: true });
+    add({ message: 'p1 の2件目のエラー', profile: 'p1', error: 'セッション切れ' });
+
+    const errors = queryLogs({ profile: 'p1', error: true, limit: 1 });
+    expect(errors.logs.map(log => log.message)).toEqual(['p1 の2件目のエラー']);
+    expect(queryLogs({ profile: 'p1', error: true, limit: 1, cursor: errors.next_cursor! }).logs.map(log => log.message)).toEqual(['p1 のエラー']);
+    expect(queryLogs({ found: true }).logs.map(log => log.message)).toEqual(['p1 の空き']);
+  });
+
+  test('メッセージを全文検索する（2文字以下は部分一致）', () => {
+    add({ message: 'JKKねっとがメンテナンス中のため検索できませんでした' });
+    add({ message: '検索中(ヒットなし)...' });
+
+    expect(queryLogs({ q: 'メンテナンス' }).logs).toHaveLength(1);
+    expect(queryLogs({ q: 'ヒット' }).logs).toHaveLength(1);
+    expect(queryLogs({ q: '検索' }).logs).toHaveLength(2);
+    expect(queryLogs({ q: '100%' }).logs).toHaveLength(0);
+  });
+
+  test('日時の範囲で絞り込む', () => {
+    add({ message: '3日前', daysAgo: 3 });
+    add({ message: '今日' });
+
+    expect(queryLogs({ from: new Date(Date.now() - DAY_MS).toISOString() }).logs.map(log => log.message)).toEqual(['今日']);
+    expect(queryLogs({ to: new Date(Date.now() - DAY_MS).toISOString() }).logs.map(log => log.message)).toEqual(['3日前']);
+  });
+});
+
+describe('deleteExpiredLogs', () => {
+  test('種類ごとの保持期間・件数を超えたログを削除する', () => {
+    add({ message: '古い空き', found: true, daysAgo: 40 });
+    add({ message: '古いヒットなし', daysAgo: 2 });
+    add({ message: 'ヒットなし1' });
+    add({ message: 'ヒットなし2' });
+    add({ message: '古いエラー', error: 'x', daysAgo: 10 });
+
+    const { removed } = deleteExpiredLogs({
+      hits: { max_age_days: 30 },
+      no_hits: { max_count: 2 },
+      errors: { max_age_days: 30 },
+    });
+
+    expect(removed).toEqual({ hits: 1, no_hits: 1, errors: 0 });
+    expect(queryLogs().logs.map(log => log.message)).toEqual(['古いエラー', 'ヒットなし2', 'ヒットなし1']);
+  });
+
+  test('ドライランでは削除件数を返してログを元に戻す', () => {
+    add({ message: '古いヒットなし', daysAgo: 10, screenshotPath: 'logs/property_old.png' });
+    add({ message: '空き', found: true, screenshotPath: 'logs/property_new.png', listings: [listing] });
+
+    const { removed, referencedFiles } = deleteExpiredLogs({ ...noRules, no_hits: { max_age_days: 1 } }, true);
+
+    expect(removed.no_hits).toBe(1);
+    // 参照されているファイルは削除した後の状態で数える
+    expect([...referencedFiles].sort()).toEqual(['logs/floorplan_1.png', 'logs/property_new.png']);
+    expect(queryLogs().logs).toHaveLength(2);
+    expect(queryLogs({ q: '古いヒットなし' }).logs).toHaveLength(1);
+  });
+});
+
+describe('forgetFiles', () => {
+  test('削除したファイルへの参照をログから外す', () => {
+    add({
+      message: 'エラー',
+      error: 'x',
+      screenshotPath: 'logs/site_changed_1.png',
+      artifacts: { html: 'logs/failure_1.html', screenshot: 'logs/failure_1.png' },
+    });
+    add({ message: '空き', found: true, listings: [listing], screenshotPath: 'logs/property_1.png' });
+
+    forgetFiles(['logs/site_changed_1.png', 'logs/failure_1.html', 'logs/floorplan_1.png']);
+
+    const [found, error] = queryLogs().logs;
+    expect(error?.screenshotPath).toBeUndefined();
+    expect(error?.artifacts).toEqual({ screenshot: 'logs/failure_1.png' });
+    expect(found?.screenshotPath).toBe('logs/property_1.png');
+    expect(found?.listings?.[0]?.detail).toEqual({ rent_breakdown: { 家賃: '85,000円' } });
+    expect(deleteExpiredLogs(noRules, true).referencedFiles).toEqual(new Set(['logs/failure_1.png', 'logs/property_1.png']));
+  });
+});
@@ -0,0 +1,215 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { chromium } from 'playwright';
+import { FIXTURES_DIR, startReplayServer, stopReplayServer } from '../src/replay';
+import { searchAvailableProperty, classifyPage, extractListings, type PageContent, type TableRow } from '../src/scraper';
+import { SELECTORS } from '../src/selectors';
+import { shutdownBrowser } from '../src/browser';
+import type { SearchConfig } from '../src/config';
+
+const SEARCH: SearchConfig = {
+  kana_name: 'テスト',
+  kaiso_from: '1',
+  menseki_from: 'こだわらない',
+  madori: {
+    madori_1R1K_1LDK: true,
+    madori_2K_2LDK: true,
+    madori_3K_3LDK: true,
+    madori_4K_up: true,
+  },
+};
+
+// ブラウザがインストールされていない環境（npx playwright install 前）ではブラウザを使うテストを飛ばす
+const hasBrowser = existsSync(chromium.executablePath());
+
+// 手書きのフィクスチャ（列の並びが違う検索結果。詳細ページなし）
+const handWrittenDir = mkdtempSync(join(tmpdir(), 'jkkwatcher-fixture-'));
+writeFileSync(join(handWrittenDir, 'results.html'), `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="UTF-8"><title>検索結果</title></head>
+<body>
+<table>
+  <tr><th>間取り</th><th>家賃</th><th>住宅名</th><th>地域</th><th>階</th><th>床面積</th><th>共益費</th></tr>
+  <tr><td>1DK</td><td>60,000円</td><td>手書きハイツ</td><td>中野区</td><td>5</td><td>30.00㎡</td><td>2,000円</td></tr>
+</table>
+</body>
+</html>
+`);
+
+/**
+ * ブラウザを使わずに、フィクスチャのHTMLからページの内容を読み取る（入れ子のテーブルは扱わない）
+ */
+const readFixture = async (path: string): Promise<PageContent> => {
+  const content: PageContent = { url: 'http://localhost/', text: '', noResults: false, form: false, rows: [] };
+  const formFields = new Set<string>();
+  const rowsSelector = SELECTORS.results.rows;
+  const lastRow = (): TableRow | undefined => content.rows.at(-1);
+
+  let rewriter = new HTMLRewriter()
+    .on('body', { text: chunk => { content.text += chunk.text; } })
+    .on(SELECTORS.results.noResults, { element: () => { content.noResults = true; } })
+    .on(rowsSelector, { element: () => { content.rows.push({ cells: [], href: null, onclick: null }); } })
+    .on(`${rowsSelector} > th, ${rowsSelector} > td`, {
+      element: () => { lastRow()?.cells.push(''); },
+      text: chunk => {
+        const cells = lastRow()?.cells;
+        if (cells && cells.length > 0) {
+          cells[cells.length - 1] += chunk.text;
+        }
+      },
+    })
+    .on(SELECTORS.results.detailLink.split(',').map(selector => `${rowsSelector} ${selector.trim()}`).join(', '), {
+      element: element => {
+        const row = lastRow();
+        if (row && row.href === null && row.onclick === null) {
+          row.href = element.getAttribute('href');
+          row.onclick = element.getAttribute('onclick');
+        }
+      },
+    });
+  for (const [field, selector] of Object.entries(SELECTORS.form)) {
+    rewriter = rewriter.on(selector, { element: () => { formFields.add(field); } });
+  }
+  await rewriter.transform(new Response(readFileSync(path, 'utf8'))).text();
+
+  content.form = formFields.size === Object.keys(SELECTORS.form).length;
+  for (const row of content.rows) {
+    row.cells = row.cells.map(cell => cell.replace(/\s+/g, ' ').trim());
+  }
+  return content;
+};
+
+afterAll(async () => {
+  await shutdownBrowser(true);
+  stopReplayServer();
+  rmSync(handWrittenDir, { recursive: true, force: true });
+});
+
+describe('代替サーバー', () => {
+  test('GET には検索条件の入力ページ、POST（検索フォームの送信）には検索結果を返す', async () => {
+    const url = startReplayServer(join(FIXTURES_DIR, 'no-results'));
+
+    const form = await fetch(url);
+    expect(form.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(await form.text()).toContain('akiyaInitRM.akiyaRefM.jyutakuKanaName');
+
+    const results = await (await fetch(url, { method: 'POST' })).text();
+    expect(results).toContain('該当する物件はありません');
+    // JKKねっとへのリンクは代替サーバーのURLに置き換える
+    expect(results).not.toContain('https://jhomes.to-kousya.or.jp');
+    expect(results).toContain(new URL(url).origin);
+  });
+
+  test('フィクスチャのディレクトリにあるファイルは同名で返す', async () => {
+    const url = startReplayServer(join(FIXTURES_DIR, 'results'));
+    expect(await (await fetch(new URL('results_2.html', url))).text()).toContain('テストレジデンス');
+    expect(await (await fetch(new URL('detail_0001.html', url))).text()).toContain('テストハイツ');
+  });
+
+  test('同じディレクトリなら起動済みのサーバーを使う', () => {
+    const dir = join(FIXTURES_DIR, 'results');
+    expect(startReplayServer(dir)).toBe(startReplayServer(dir));
+  });
+
+  test('検索結果のフィクスチャがなければエラー', () => {
+    expect(() => startReplayServer(join(FIXTURES_DIR, 'missing'))).toThrow('フィクスチャが見つかりません');
+  });
+});
+
+describe('フィクスチャのページの判別と物件の読み取り', () => {
+  test('ページの種類を判別する', async () => {
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'form.html')))).toBe('form');
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'results', 'results.html')))).toBe('results');
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'no-results', 'results.html')))).toBe('no_results');
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'maintenance', 'results.html')))).toBe('maintenance');
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'session-expired', 'results.html')))).toBe('session_expired');
+    expect(classifyPage(await readFixture(join(FIXTURES_DIR, 'changed-layout', 'results.html')))).toBe('unknown');
+  });
+
+  test('詳細ボタンの引数を物件IDにし、物件の行の位置を返す', async () => {
+    const extracted = extractListings(await readFixture(join(FIXTURES_DIR, 'results', 'results.html')));
+
+    expect(extracted.map(({ listing, row }) => [listing.id, row])).toEqual([['0001:101:0303', 1], ['0002:205:0701', 2]]);
+    expect(extracted[0]?.listing).toMatchObject({
+      name: 'テストハイツ',
+      area: '新宿区',
+      madori: '2DK',
+      floor_area: '45.20㎡',
+      floor: '3',
+      rent: '85,000円',
+      common_fee: '3,200円',
+    });
+    // javascript: のリンクは物件のリンクにしない
+    expect(extracted[0]?.listing.link).toBeUndefined();
+  });
+
+  test('見出しの文言から列の位置を決め、詳細ボタンがなければ物件の内容からIDを作る', async () => {
+    const extracted = extractListings(await readFixture(join(handWrittenDir, 'results.html')));
+    expect(extracted.map(({ listing }) => listing)).toEqual([{
+      id: '手書きハイツ|5|1DK|30.00㎡',
+      name: '手書きハイツ',
+      area: '中野区',
+      madori: '1DK',
+      floor_area: '30.00㎡',
+      floor: '5',
+      rent: '60,000円',
+      common_fee: '2,000円',
+    }]);
+  });
+
+  test('見出し行のないページからは読み取らない', async () => {
+    expect(extractListings(await readFixture(join(FIXTURES_DIR, 'changed-layout', 'results.html')))).toEqual([]);
+    expect(extractListings(await readFixture(join(FIXTURES_DIR, 'no-results', 'results.html')))).toEqual([]);
+  });
+});
+
+describe.skipIf(!hasBrowser)('保存したページに対する検索', () => {
+  const replay = (dir: string, options: { fetch_details?: boolean } = {}) =>
+    searchAvailableProperty(SEARCH, true, { replay_dir: dir, ...options });
+
+  test('物件あり: 全ページの物件・詳細ページ・スクリーンショットを読み取る', async () => {
+    const result = await replay(join(FIXTURES_DIR, 'results'));
+
+    expect(result).toMatchObject({ success: true, found: true, pageShape: 'results' });
+    expect(result.listings?.map(listing => listing.id)).toEqual(['0001:101:0303', '0002:205:0701', '0003:102:0205']);
+    expect(result.listings?.[0]).toMatchObject({ name: 'テストハイツ', area: '新宿区', madori: '2DK', rent: '85,000円' });
+    expect(result.listings?.[0]?.detail?.address).toBeDefined();
+    expect(result.screenshotPaths).toHaveLength(2);
+    expect(result.screenshotPaths?.every(path => existsSync(path))).toBe(true);
+    expect(result.steps?.map(step => step.step)).toContain('results_detection');
+  }, 60000);
+
+  test('該当なし', async () => {
+    const result = await replay(join(FIXTURES_DIR, 'no-results'));
+    expect(result).toMatchObject({ success: true, found: false, pageShape: 'no_results' });
+  }, 30000);
+
+  test('メンテナンス中・セッション切れはエラーとして返す', async () => {
+    expect(await replay(join(FIXTURES_DIR, 'maintenance'))).toMatchObject({ success: false, found: false, pageShape: 'maintenance' });
+    expect(await replay(join(FIXTURES_DIR, 'session-expired'))).toMatchObject({ success: false, found: false, pageShape: 'session_expired' });
+  }, 60000);
+
+  test('想定外のページはページ構成の変更として、確認用のスクリーンショットを保存する', async () => {
+    const result = await replay(join(FIXTURES_DIR, 'changed-layout'));
+    expect(result).toMatchObject({ success: false, found: false, pageShape: 'unknown' });
+    expect(result.screenshotPath).toContain('site_changed_');
+    expect(existsSync(result.screenshotPath!)).toBe(true);
+  }, 30000);
+
+  test('手書きのフィクスチャ: 見出しの文言から列の位置を決める', async () => {
+    const result = await replay(handWrittenDir, { fetch_details: false });
+
+    expect(result).toMatchObject({ success: true, found: true, pageShape: 'results' });
+    expect(result.listings).toEqual([expect.objectContaining({
+      name: '手書きハイツ',
+      area: '中野区',
+      madori: '1DK',
+      floor_area: '30.00㎡',
+      floor: '5',
+      rent: '60,000円',
+      common_fee: '2,000円',
+    })]);
+  }, 30000);
+});
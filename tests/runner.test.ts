@@ -0,0 +1,183 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { rmSync, writeFileSync } from 'fs';
+import { runExclusive, cancelCheck, getCheckState, isCheckRunning, overlapPolicy, CheckCancelledError } from '../src/runner';
+import { invalidateConfigCache, type CheckOverlapPolicy } from '../src/config';
+
+// 終わるタイミングをテストから決められるチェック
+interface ControlledTask {
+  task: (signal: AbortSignal, jobIds: string[]) => Promise<string>;
+  finish: () => void;
+  calls: { jobIds: string[]; signal: AbortSignal }[];
+}
+
+const controlledTask = (value: string): ControlledTask => {
+  const calls: ControlledTask['calls'] = [];
+  let finish = () => {};
+  return {
+    calls,
+    finish: () => finish(),
+    task: (signal, jobIds) => {
+      calls.push({ jobIds: [...jobIds], signal });
+      return new Promise<string>((resolve, reject) => {
+        finish = () => resolve(value);
+        signal.addEventListener('abort', () => reject(new Error('中止されました')));
+      });
+    },
+  };
+};
+
+// check_overlap を設定した config.yaml を書く
+const usePolicy = (policy: CheckOverlapPolicy) => {
+  writeFileSync('config.yaml', [
+    'config_version: 2',
+    'interval_seconds: 300',
+    'recipients:',
+    '  sender: watcher@example.com',
+    '  to: [me@example.com]',
+    'channels:',
+    '  - type: webhook',
+    '    url: http://127.0.0.1:1/hook',
+    'searches:',
+    '  - name: p1',
+    '    enabled: true',
+    '    kana_name: テスト',
+    "    kaiso_from: '1'",
+    '    menseki_from: こだわらない',
+    '    madori: {}',
+    `check_overlap: ${policy}`,
+    '',
+  ].join('\n'));
+  invalidateConfigCache();
+};
+
+beforeEach(() => {
+  expect(isCheckRunning()).toBe(false);
+});
+
+afterAll(() => {
+  rmSync('config.yaml', { force: true });
+});
+
+describe('overlapPolicy', () => {
+  test('設定を読めない場合は coalesce', () => {
+    rmSync('config.yaml', { force: true });
+    invalidateConfigCache();
+    expect(overlapPolicy()).toBe('coalesce');
+  });
+
+  test('check_overlap の設定を使う', () => {
+    usePolicy('queue');
+    expect(overlapPolicy()).toBe('queue');
+  });
+});
+
+describe('runExclusive', () => {
+  test('skip: 実行中は要求されたチェックを実行しない', async () => {
+    usePolicy('skip');
+    const first = controlledTask('first');
+    const second = controlledTask('second');
+
+    const running = runExclusive('p1', 'p1', first.task, 'a');
+    expect(await runExclusive('p2', 'p2', second.task, 'b')).toBeUndefined();
+    expect(second.calls).toHaveLength(0);
+
+    first.finish();
+    expect(await running).toBe('first');
+  });
+
+  test('queue: 実行中のチェックが終わってから順番に実行する', async () => {
+    usePolicy('queue');
+    const first = controlledTask('first');
+    const second = controlledTask('second');
+    const third = controlledTask('third');
+
+    const results = [
+      runExclusive('p1', 'p1', first.task, 'a'),
+      runExclusive('p1', 'p1（2回目）', second.task, 'b'),
+      runExclusive('p1', 'p1（3回目）', third.task, 'c'),
+    ];
+    expect(getCheckState()).toMatchObject({ running: { label: 'p1' }, queued: ['p1（2回目）', 'p1（3回目）'] });
+    expect(second.calls).toHaveLength(0);
+
+    first.finish();
+    expect(await results[0]).toBe('first');
+    expect(second.calls).toEqual([{ jobIds: ['b'], signal: expect.any(AbortSignal) }]);
+
+    second.finish();
+    expect(await results[1]).toBe('second');
+    third.finish();
+    expect(await results[2]).toBe('third');
+    expect(getCheckState()).toEqual({ running: undefined, queued: [] });
+  });
+
+  test('coalesce: 順番待ちの同じチェックとまとめて1回だけ実行する', async () => {
+    usePolicy('coalesce');
+    const first = controlledTask('first');
+    const waiting = controlledTask('waiting');
+    const duplicate = controlledTask('duplicate');
+    const other = controlledTask('other');
+
+    const running = runExclusive('p1', 'p1', first.task, 'a');
+    const results = [
+      runExclusive('p1', 'p1', waiting.task, 'b'),
+      runExclusive('p1', 'p1', duplicate.task, 'c'),
+      runExclusive('p2', 'p2', other.task, 'd'),
+    ];
+    expect(getCheckState().queued).toEqual(['p1', 'p2']);
+
+    first.finish();
+    await running;
+    // まとめられたチェックには待っている全てのジョブのIDを渡す
+    expect(waiting.calls.map(call => call.jobIds)).toEqual([['b', 'c']]);
+    expect(duplicate.calls).toHaveLength(0);
+
+    waiting.finish();
+    expect(await results[0]).toBe('waiting');
+    expect(await results[1]).toBe('waiting');
+
+    other.finish();
+    expect(await results[2]).toBe('other');
+  });
+});
+
+describe('cancelCheck', () => {
+  test('順番待ちのチェックは実行せずに外し、待っている全てのジョブを CheckCancelledError で失敗させる', async () => {
+    usePolicy('coalesce');
+    const first = controlledTask('first');
+    const queued = controlledTask('queued');
+
+    const running = runExclusive('p1', 'p1', first.task, 'a');
+    const waiters = [runExclusive('p2', 'p2', queued.task, 'b'), runExclusive('p2', 'p2', queued.task, 'c')];
+
+    expect(cancelCheck('c')).toBe('p2');
+    for (const waiter of waiters) {
+      await expect(waiter).rejects.toBeInstanceOf(CheckCancelledError);
+    }
+    expect(getCheckState().queued).toEqual([]);
+
+    first.finish();
+    expect(await running).toBe('first');
+    expect(queued.calls).toHaveLength(0);
+  });
+
+  test('実行中のチェックを中止する（ジョブを指定した場合は、そのジョブのチェックだけ）', async () => {
+    usePolicy('queue');
+    const first = controlledTask('first');
+    const second = controlledTask('second');
+
+    const running = runExclusive('p1', 'p1', first.task, 'a');
+    const next = runExclusive('p2', 'p2', second.task, 'b');
+
+    expect(cancelCheck('unknown')).toBeUndefined();
+    expect(cancelCheck('a')).toBe('p1');
+    expect(first.calls[0]?.signal.aborted).toBe(true);
+    // 中止済みのチェックは中止し直さない
+    expect(cancelCheck()).toBeUndefined();
+    await expect(running).rejects.toThrow('中止されました');
+
+    // 中止されたチェックの後に順番待ちのチェックを実行する
+    expect(second.calls).toHaveLength(1);
+    expect(cancelCheck()).toBe('p2');
+    await expect(next).rejects.toThrow('中止されました');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'bun:test';
+import { isQuiet, intervalAt, nextRunTime, skipQuietHours, SCHEDULE_SCHEMA } from '../src/schedule';
+import { validate, ConfigValidationError } from '../src/schema';
+import type { ScheduleConfig } from '../src/config';
+
+// 2026-10-19 は月曜日
+const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+
+describe('nextRunTime', () => {
+  test('ルールがなければ既定の間隔で実行する', () => {
+    expect(nextRunTime(at('10:00'), { timezone: 'UTC' }, 300)).toEqual(at('10:05'));
+  });
+
+  test('時間帯のルールの間はルールの間隔で実行する', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', rules: [{ start: '09:00', end: '18:00', interval_seconds: 600 }] };
+    expect(nextRunTime(at('10:00'), schedule, 3600)).toEqual(at('10:10'));
+    expect(nextRunTime(at('18:00'), schedule, 3600)).toEqual(at('19:00'));
+  });
+
+  test('次回までに時間帯のルールが始まる場合は開始時刻に実行する', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', rules: [{ start: '09:00', end: '18:00', interval_seconds: 600 }] };
+    expect(nextRunTime(at('08:30'), schedule, 3600)).toEqual(at('09:00'));
+  });
+
+  test('次回までに cron式の時刻が来る場合はその時刻に実行する', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', rules: [{ cron: '30 * * * *' }] };
+    expect(nextRunTime(at('10:05'), schedule, 3600)).toEqual(at('10:30'));
+    expect(nextRunTime(at('10:30'), schedule, 7200)).toEqual(at('11:30'));
+  });
+
+  test('cron式の曜日・範囲・間隔を解釈する', () => {
+    const weekday: ScheduleConfig = { timezone: 'UTC', rules: [{ cron: '0 9 * * sat' }] };
+    expect(nextRunTime(at('10:00'), weekday, 7 * 24 * 60 * 60)).toEqual(new Date('2026-10-24T09:00:00Z'));
+
+    const range: ScheduleConfig = { timezone: 'UTC', rules: [{ cron: '*/20 8-9 * * mon-fri' }] };
+    expect(nextRunTime(at('08:05'), range, 3600)).toEqual(at('08:20'));
+    expect(nextRunTime(at('09:40'), range, 3600)).toEqual(at('10:40'));
+  });
+
+  test('タイムゾーンの時刻で判定する', () => {
+    // Asia/Tokyo の 09:00 は UTC の 00:00
+    const schedule: ScheduleConfig = { timezone: 'Asia/Tokyo', rules: [{ cron: '0 9 * * *' }] };
+    expect(nextRunTime(new Date('2026-10-18T23:30:00Z'), schedule, 3600)).toEqual(at('00:00'));
+  });
+
+  test('停止時間帯に入る場合は停止時間帯の終わりまで延ばす', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', quiet_hours: [{ start: '22:00', end: '06:00' }] };
+    expect(nextRunTime(at('21:30'), schedule, 3600)).toEqual(new Date('2026-10-20T06:00:00Z'));
+  });
+
+  test('jitter_seconds 以内の秒数をずらす', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', jitter_seconds: 30 };
+    for (let i = 0; i < 20; i++) {
+      const next = nextRunTime(at('10:00'), schedule, 300).getTime();
+      expect(next).toBeGreaterThanOrEqual(at('10:05').getTime());
+      expect(next).toBeLessThan(at('10:05').getTime() + 30 * 1000);
+    }
+  });
+});
+
+describe('時間帯の判定', () => {
+  test('日をまたぐ停止時間帯は翌日の終了時刻まで', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', quiet_hours: [{ start: '22:00', end: '06:00' }] };
+    expect(isQuiet(at('21:59'), schedule)).toBe(false);
+    expect(isQuiet(at('22:00'), schedule)).toBe(true);
+    expect(isQuiet(at('05:59'), schedule)).toBe(true);
+    expect(isQuiet(at('06:00'), schedule)).toBe(false);
+  });
+
+  test('曜日を指定した日をまたぐ時間帯は、翌日の早朝も含む', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', quiet_hours: [{ days: ['sun'], start: '22:00', end: '06:00' }] };
+    // 月曜日の早朝は日曜日の時間帯の続き
+    expect(isQuiet(at('05:00'), schedule)).toBe(true);
+    expect(isQuiet(at('23:00'), schedule)).toBe(false);
+  });
+
+  test('一致するルールの間隔（先に書いたルールが優先）', () => {
+    const schedule: ScheduleConfig = {
+      timezone: 'UTC',
+      rules: [
+        { days: ['mon'], start: '09:00', end: '12:00', interval_seconds: 120 },
+        { start: '09:00', end: '18:00', interval_seconds: 600 },
+      ],
+    };
+    expect(intervalAt(at('10:00'), schedule, 3600)).toBe(120);
+    expect(intervalAt(at('13:00'), schedule, 3600)).toBe(600);
+    expect(intervalAt(at('20:00'), schedule, 3600)).toBe(3600);
+  });
+
+  test('停止時間帯の外の日時はそのまま返す', () => {
+    const schedule: ScheduleConfig = { timezone: 'UTC', quiet_hours: [{ start: '01:00', end: '02:00' }] };
+    expect(skipQuietHours(at('03:00'), schedule)).toEqual(at('03:00'));
+    expect(skipQuietHours(at('01:30'), schedule)).toEqual(at('02:00'));
+  });
+});
+
+describe('SCHEDULE_SCHEMA', () => {
+  const issues = (schedule: unknown) => {
+    try {
+      validate(SCHEDULE_SCHEMA, schedule, 'schedule');
+      return [];
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      return (error as ConfigValidationError).issues;
+    }
+  };
+
+  test('正しいスケジュールは通る', () => {
+    expect(issues({
+      timezone: 'Asia/Tokyo',
+      jitter_seconds: 30,
+      rules: [{ cron: '*/15 9-17 * jan-mar mon-fri' }, { days: ['sat', 'sun'], start: '10:00', end: '16:00', interval_seconds: 600 }],
+      quiet_hours: [{ start: '01:00', end: '05:00' }],
+    })).toEqual([]);
+  });
+
+  test('不正な cron式を指摘する', () => {
+    expect(issues({ rules: [{ cron: '0 9 * *' }] })).toEqual([
+      { path: 'schedule.rules[0].cron', message: 'cron式は「分 時 日 月 曜日」の5項目で指定してください: 0 9 * *' },
+    ]);
+    expect(issues({ rules: [{ cron: '60 * * * *' }] })[0]?.message).toBe('cron式の値が範囲外です: 60 * * * *');
+    expect(issues({ rules: [{ cron: '0 9 * * someday' }] })[0]?.path).toBe('schedule.rules[0].cron');
+  });
+
+  test('ルールには cron か interval_seconds のどちらか一方が必要', () => {
+    expect(issues({ rules: [{ start: '09:00' }] })[0]?.path).toBe('schedule.rules[0]');
+    expect(issues({ rules: [{ cron: '0 9 * * *', interval_seconds: 600 }] })[0]?.path).toBe('schedule.rules[0]');
+    expect(issues({ rules: [{ interval_seconds: 30 }] })).toEqual([
+      { path: 'schedule.rules[0].interval_seconds', message: 'スケジュールの監視間隔は60秒以上に設定してください' },
+    ]);
+  });
+
+  test('不正な時刻・曜日・タイムゾーンを指摘する', () => {
+    expect(issues({ rules: [{ start: '25:00', interval_seconds: 600 }] })[0]?.path).toBe('schedule.rules[0].start');
+    expect(issues({ rules: [{ days: ['monday'], interval_seconds: 600 }] })[0]?.path).toBe('schedule.rules[0].days[0]');
+    expect(issues({ timezone: 'Mars/Olympus' })[0]?.message).toBe('タイムゾーンが不正です: Mars/Olympus');
+  });
+
+  test('停止時間帯には開始・終了の時刻が必要', () => {
+    expect(issues({ quiet_hours: [{ days: ['sun'] }] }).map(issue => issue.path)).toEqual([
+      'schedule.quiet_hours[0].start',
+      'schedule.quiet_hours[0].end',
+    ]);
+  });
+
+  test('1週間の全ての時間を含む停止時間帯は通らない', () => {
+    const message = '停止時間帯が1週間の全ての時間を含んでいるため、監視できません';
+    expect(issues({ quiet_hours: [{ start: '00:00', end: '00:00' }] })).toEqual([{ path: 'schedule.quiet_hours', message }]);
+    expect(issues({ quiet_hours: [{ start: '00:00', end: '12:00' }, { start: '12:00', end: '24:00' }] })).toEqual([{ path: 'schedule.quiet_hours', message }]);
+    expect(issues({ quiet_hours: [{ start: '00:00', end: '23:59' }] })).toEqual([]);
+  });
+});
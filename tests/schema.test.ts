@@ -0,0 +1,188 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  validate,
+  childPath,
+  optional,
+  string,
+  number,
+  boolean,
+  array,
+  object,
+  record,
+  discriminated,
+  all,
+  refine,
+  ConfigValidationError,
+  type Schema,
+  type SchemaIssue,
+} from '../src/schema';
+import { validateConfig, type Config } from '../src/config';
+
+const check = (schema: Schema, value: unknown, path: string = ''): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  schema(value, path, issues);
+  return issues;
+};
+
+describe('childPath', () => {
+  test('項目名はドット、要素の位置は角括弧でつなぐ', () => {
+    expect(childPath('', 'smtp')).toBe('smtp');
+    expect(childPath('smtp', 'port')).toBe('smtp.port');
+    expect(childPath('searches', 0)).toBe('searches[0]');
+  });
+});
+
+describe('validate', () => {
+  test('問題がなければ何もしない', () => {
+    expect(() => validate(string(), 'ok')).not.toThrow();
+  });
+
+  test('全ての問題を持つ ConfigValidationError を投げる', () => {
+    const schema = object({ host: string(), port: number() });
+    let error: unknown;
+    try {
+      validate(schema, { port: 'x' }, 'smtp');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      { path: 'smtp.host', message: '入力してください' },
+      { path: 'smtp.port', message: '数値で指定してください' },
+    ]);
+    expect((error as ConfigValidationError).message).toBe('smtp.host: 入力してください\nsmtp.port: 数値で指定してください');
+  });
+});
+
+describe('string', () => {
+  test('空の値・文字列以外を指摘する', () => {
+    expect(check(string({ required: '名前を入力してください' }), '', 'name')).toEqual([{ path: 'name', message: '名前を入力してください' }]);
+    expect(check(string(), 1)).toEqual([{ path: '', message: '文字列で指定してください' }]);
+  });
+
+  test('文字数・形式・選択肢を調べる', () => {
+    expect(check(string({ minLength: 3 }), 'ab')[0]?.message).toBe('3文字以上で入力してください');
+    expect(check(string({ pattern: /^\d+$/, message: '数字で入力してください' }), 'a1')[0]?.message).toBe('数字で入力してください');
+    expect(check(string({ oneOf: ['a', 'b'] }), 'c')[0]?.message).toBe('a, b のいずれかを指定してください');
+    expect(check(string({ oneOf: ['a', 'b'] }), 'b')).toEqual([]);
+  });
+});
+
+describe('number', () => {
+  test('数値以外・整数以外・範囲外を指摘する', () => {
+    expect(check(number(), NaN)[0]?.message).toBe('数値で指定してください');
+    expect(check(number({ integer: true }), 1.5)[0]?.message).toBe('整数で指定してください');
+    expect(check(number({ min: 1, max: 10 }), 0)[0]?.message).toBe('1以上で指定してください');
+    expect(check(number({ min: 1, max: 10 }), 11)[0]?.message).toBe('10以下で指定してください');
+    expect(check(number({ exclusiveMin: 0 }), 0)[0]?.message).toBe('0より大きい値を指定してください');
+    expect(check(number({ integer: true, min: 1, max: 10 }), 5)).toEqual([]);
+  });
+});
+
+describe('boolean', () => {
+  test('真偽値以外を指摘する', () => {
+    expect(check(boolean(), 'true')[0]?.message).toBe('true または false で指定してください');
+    expect(check(boolean(), false)).toEqual([]);
+  });
+});
+
+describe('array・object・record', () => {
+  test('要素ごとにパスを付けて調べる', () => {
+    const schema = array(object({ name: string() }), { minLength: 1 });
+    expect(check(schema, [{ name: 'a' }, {}], 'searches')).toEqual([{ path: 'searches[1].name', message: '入力してください' }]);
+    expect(check(schema, [], 'searches')[0]?.message).toBe('1件以上指定してください');
+    expect(check(schema, {}, 'searches')[0]?.message).toBe('一覧（配列）で指定してください');
+  });
+
+  test('配列はオブジェクトとして扱わない', () => {
+    expect(check(object({}), [])[0]?.message).toBe('項目と値の組で指定してください');
+    expect(check(record(string()), [])[0]?.message).toBe('名前と値の組で指定してください');
+  });
+
+  test('record は全ての値を調べる', () => {
+    expect(check(record(string()), { a: 'x', b: 1 }, 'headers')).toEqual([{ path: 'headers.b', message: '文字列で指定してください' }]);
+  });
+});
+
+describe('optional', () => {
+  test('undefined の場合だけ調べない', () => {
+    expect(check(optional(string()), undefined)).toEqual([]);
+    expect(check(optional(string()), '')[0]?.message).toBe('入力してください');
+  });
+});
+
+describe('discriminated', () => {
+  const schema = discriminated('type', {
+    slack: object({ webhook_url: string() }),
+    ntfy: object({ topic: string() }),
+  });
+
+  test('種類の値に応じたスキーマで調べる', () => {
+    expect(check(schema, { type: 'slack', webhook_url: 'https://example.com' })).toEqual([]);
+    expect(check(schema, { type: 'ntfy' }, 'channels[0]')).toEqual([{ path: 'channels[0].topic', message: '入力してください' }]);
+  });
+
+  test('不明な種類を指摘する（プロトタイプの項目名も不明として扱う）', () => {
+    expect(check(schema, { type: 'line' }, 'channels[0]')).toEqual([
+      { path: 'channels[0].type', message: 'slack, ntfy のいずれかを指定してください' },
+    ]);
+    expect(check(schema, { type: 'toString' }, 'channels[0]')[0]?.path).toBe('channels[0].type');
+  });
+});
+
+describe('all・refine', () => {
+  test('all は前のスキーマで問題があっても続けて調べる', () => {
+    const schema = all(number({ min: 10 }), number({ integer: true }));
+    expect(check(schema, 1.5).map(issue => issue.message)).toEqual(['10以上で指定してください', '整数で指定してください']);
+  });
+
+  test('refine の追加のチェックは型のチェックを通った場合のみ呼ばれる', () => {
+    let called = 0;
+    const schema = refine<{ from: number; to: number }>(object({ from: number(), to: number() }), (value, path, issues) => {
+      called++;
+      if (value.from > value.to) {
+        issues.push({ path, message: 'from は to 以下にしてください' });
+      }
+    });
+
+    expect(check(schema, { from: 'a', to: 1 }, 'range')).toEqual([{ path: 'range.from', message: '数値で指定してください' }]);
+    expect(called).toBe(0);
+    expect(check(schema, { from: 2, to: 1 }, 'range')).toEqual([{ path: 'range', message: 'from は to 以下にしてください' }]);
+    expect(called).toBe(1);
+  });
+});
+
+describe('validateConfig', () => {
+  const configWith = (channels: Config['channels']): Config => ({
+    config_version: 2,
+    interval_seconds: 300,
+    recipients: { sender: 'watcher@example.com', to: ['me@example.com'] },
+    channels,
+    searches: [{ name: 'p1', enabled: true, kana_name: 'テスト', kaiso_from: '1', menseki_from: 'こだわらない', madori: {} }],
+  } as unknown as Config);
+
+  const issuesOf = (config: Config): SchemaIssue[] => {
+    try {
+      validateConfig(config);
+      return [];
+    } catch (error) {
+      return (error as ConfigValidationError).issues;
+    }
+  };
+
+  test('名前のない同じ種類の通知チャネルは重複として指摘する', () => {
+    const issues = issuesOf(configWith([
+      { type: 'webhook', url: 'https://example.com/a' },
+      { type: 'webhook', url: 'https://example.com/b' },
+    ]));
+    expect(issues.map(issue => issue.path)).toEqual(['channels[1].name']);
+  });
+
+  test('名前を付ければ同じ種類の通知チャネルを複数使える', () => {
+    expect(issuesOf(configWith([
+      { type: 'webhook', url: 'https://example.com/a' },
+      { type: 'webhook', name: '予備', url: 'https://example.com/b' },
+    ]))).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { loadSecrets, saveSecrets, resolveSecretReferences, preserveSecretReferences } from '../src/secrets';
+
+const KEY_ENV = 'JKKWATCHER_SECRETS_KEY';
+
+beforeEach(() => {
+  process.env[KEY_ENV] = 'test-passphrase';
+  process.env.JKKWATCHER_TEST_PASSWORD = 'env-password';
+});
+
+afterEach(() => {
+  rmSync('secrets.enc', { force: true });
+  delete process.env[KEY_ENV];
+  delete process.env.JKKWATCHER_TEST_PASSWORD;
+});
+
+describe('secrets.enc', () => {
+  test('ファイルがなければ空', () => {
+    expect(loadSecrets()).toEqual({});
+  });
+
+  test('暗号化して保存し、復号して読み込む', () => {
+    saveSecrets({ SMTP_PASSWORD: 'p@ss', SLACK_URL: 'https://hooks.slack.com/x' });
+
+    expect(existsSync('secrets.enc')).toBe(true);
+    expect(readFileSync('secrets.enc', 'utf8')).not.toContain('p@ss');
+    expect(loadSecrets()).toEqual({ SMTP_PASSWORD: 'p@ss', SLACK_URL: 'https://hooks.slack.com/x' });
+  });
+
+  test('鍵が違う場合は復号できない', () => {
+    saveSecrets({ SMTP_PASSWORD: 'p@ss' });
+    process.env[KEY_ENV] = 'other-passphrase';
+
+    expect(() => loadSecrets()).toThrow('secrets.enc を復号できません');
+  });
+
+  test('鍵が設定されていない場合は保存・読み込みできない', () => {
+    saveSecrets({ SMTP_PASSWORD: 'p@ss' });
+    delete process.env[KEY_ENV];
+
+    expect(() => saveSecrets({})).toThrow(KEY_ENV);
+    expect(() => loadSecrets()).toThrow(KEY_ENV);
+  });
+});
+
+describe('resolveSecretReferences', () => {
+  test('環境変数・secrets.enc の参照を入れ子の項目まで置き換える', () => {
+    saveSecrets({ SLACK_URL: 'https://hooks.slack.com/x' });
+
+    expect(resolveSecretReferences({
+      smtp: { user: 'me', password: '${ENV:JKKWATCHER_TEST_PASSWORD}' },
+      channels: [{ type: 'slack', webhook_url: '${SECRET:SLACK_URL}' }],
+      interval_seconds: 300,
+      note: 'pass=${ENV:JKKWATCHER_TEST_PASSWORD};',
+    })).toEqual({
+      smtp: { user: 'me', password: 'env-password' },
+      channels: [{ type: 'slack', webhook_url: 'https://hooks.slack.com/x' }],
+      interval_seconds: 300,
+      note: 'pass=env-password;',
+    });
+  });
+
+  test('値がない参照はエラーにする', () => {
+    expect(() => resolveSecretReferences('${ENV:JKKWATCHER_TEST_MISSING}')).toThrow('環境変数が設定されていません: JKKWATCHER_TEST_MISSING');
+    saveSecrets({});
+    expect(() => resolveSecretReferences('${SECRET:MISSING}')).toThrow('secrets.enc に値がありません: MISSING');
+  });
+});
+
+describe('preserveSecretReferences', () => {
+  const original = {
+    smtp: { password: '${ENV:JKKWATCHER_TEST_PASSWORD}' },
+    channels: [{ token: '${ENV:JKKWATCHER_TEST_MISSING}' }],
+  };
+
+  test('変更されていない項目は参照のまま残す', () => {
+    expect(preserveSecretReferences({ smtp: { password: 'env-password' } }, original)).toEqual({
+      smtp: { password: '${ENV:JKKWATCHER_TEST_PASSWORD}' },
+    });
+  });
+
+  test('通知チャネルを並べ替え・削除しても、種類と名前が同じチャネルの参照と比べる', () => {
+    process.env.JKKWATCHER_TEST_SLACK_URL = 'https://hooks.slack.com/x';
+    process.env.JKKWATCHER_TEST_NTFY_TOKEN = 'ntfy-token';
+    const file = {
+      channels: [
+        { type: 'slack', webhook_url: '${ENV:JKKWATCHER_TEST_SLACK_URL}' },
+        { type: 'ntfy', name: 'phone', token: '${ENV:JKKWATCHER_TEST_NTFY_TOKEN}' },
+        { type: 'ntfy', name: 'tablet', token: 'plain-token' },
+      ],
+    };
+
+    try {
+      expect(preserveSecretReferences({
+        channels: [
+          { type: 'ntfy', name: 'tablet', token: 'plain-token' },
+          { type: 'email' },
+          { type: 'ntfy', name: 'phone', token: 'ntfy-token' },
+          { type: 'slack', webhook_url: 'https://hooks.slack.com/x' },
+        ],
+      }, file)).toEqual({
+        channels: [
+          { type: 'ntfy', name: 'tablet', token: 'plain-token' },
+          { type: 'email' },
+          { type: 'ntfy', name: 'phone', token: '${ENV:JKKWATCHER_TEST_NTFY_TOKEN}' },
+          { type: 'slack', webhook_url: '${ENV:JKKWATCHER_TEST_SLACK_URL}' },
+        ],
+      });
+    } finally {
+      delete process.env.JKKWATCHER_TEST_SLACK_URL;
+      delete process.env.JKKWATCHER_TEST_NTFY_TOKEN;
+    }
+  });
+
+  test('APIトークンを並べ替えても参照のまま残す', () => {
+    saveSecrets({ TOKEN_A: 'token-a', TOKEN_B: 'token-b' });
+
+    expect(preserveSecretReferences(
+      { auth: { tokens: ['token-b', 'token-new', 'token-a'] } },
+      { auth: { tokens: ['${SECRET:TOKEN_A}', '${SECRET:TOKEN_B}'] } }
+    )).toEqual({ auth: { tokens: ['${SECRET:TOKEN_B}', 'token-new', '${SECRET:TOKEN_A}'] } });
+  });
+
+  test('変更された項目・参照を解決できない項目は新しい値にする', () => {
+    expect(preserveSecretReferences({
+      smtp: { password: 'new-password' },
+      channels: [{ token: 'new-token' }],
+    }, original)).toEqual({
+      smtp: { password: 'new-password' },
+      channels: [{ token: 'new-token' }],
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * テストの前に読み込む（bunfig.toml の preload）
+ * logs/・config.yaml・secrets.enc は作業ディレクトリに作られるため、一時ディレクトリで実行する
+ * （前回のテストで作られたファイルは実行のたびに消す）
+ */
+const workDir = join(tmpdir(), 'jkkwatcher-test');
+rmSync(workDir, { recursive: true, force: true });
+mkdirSync(workDir, { recursive: true });
+process.chdir(workDir);